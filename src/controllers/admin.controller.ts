@@ -1,37 +1,57 @@
 import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { UserModel } from '../models/user.model';
 import { DepartmentModel } from '../models/department.model';
 import { AppError } from '../middleware/error.middleware';
 import csv from 'csv-parser';
 import { Readable } from 'stream';
 import { Parser } from 'json2csv';
-import bcrypt from 'bcryptjs';
+import { RoleModel } from '../models/role.model';
+import { BUILT_IN_ROLES } from '../utils/permissions';
+import { LOGIN_ATTEMPT_OUTCOMES, LoginAttemptModel } from '../models/login-attempt.model';
+import { resetLoginFailures } from '../utils/login-guard';
+import { StudentModel } from '../models/student.model';
+import { FacultyModel } from '../models/faculty.model';
+import { ProjectModel } from '../models/project.model';
+import { ProjectTeamModel } from '../models/project-team.model';
+import { ProjectEventModel } from '../models/project-event.model';
+import { ApiKeyModel } from '../models/api-key.model';
+import { AttendanceSessionModel } from '../models/attendance-session.model';
+import { DocumentRequestModel } from '../models/document-request.model';
+import { ProfileChangeRequestModel } from '../models/profile-change-request.model';
+import { StudentStatusChangeModel } from '../models/student-status-change.model';
+import { AlumniProfileModel } from '../models/alumni-profile.model';
+import { endUserSessions } from '../utils/token.utils';
+import { generateTemporaryPassword } from '../utils/password-policy';
+import { sendAccountSetupEmail } from '../utils/account-setup';
 
 // User Management
 export const createUser = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { name, email, department, roles, password = '123456' } = req.body;
+    const { name, email, department, roles, password } = req.body;
 
-    // Hash the password
-    const hashedPassword = await bcrypt.hash(password, 12);
-
-    // Create new user
+    // Create new user; the model hashes the password and checks it against the policy.
+    // Without a password the account gets a random one and the user sets their own by email
     const user = await UserModel.create({
       name,
       email,
       department,
       roles,
-      password: hashedPassword,
+      password: password || generateTemporaryPassword(),
+      passwordChangeRequired: true,
       selectedRole: roles[0]
     });
+    if (!password) {
+      await sendAccountSetupEmail(user);
+    }
 
     // Convert to plain object and remove password
     const userResponse = user.toObject();
-    const { password: _, ...userWithoutPassword } = userResponse;
+    const { password: _, passwordHistory: __, ...userWithoutPassword } = userResponse;
 
     res.status(201).json({
       status: 'success',
-      data: { user: userWithoutPassword }
+      data: { user: userWithoutPassword, setupEmailSent: !password }
     });
   } catch (error) {
     next(error);
@@ -46,6 +66,7 @@ export const getAllUsers = async (req: Request, res: Response, next: NextFunctio
     const search = req.query.search as string;
     const role = req.query.role as string;
     const department = req.query.department as string;
+    const status = req.query.status as string;
     const sortBy = req.query.sortBy as string || 'name';
     const sortOrder = req.query.sortOrder as 'asc' | 'desc' || 'asc';
 
@@ -62,6 +83,13 @@ export const getAllUsers = async (req: Request, res: Response, next: NextFunctio
       query.department = department;
     }
 
+    // Status filter; accounts created before statuses existed are active
+    if (status === 'active') {
+      query.status = { $in: ['active', null] };
+    } else if (status && status !== 'all') {
+      query.status = status;
+    }
+
     // Search
     if (search) {
       query.$or = [
@@ -139,15 +167,217 @@ export const updateUser = async (req: Request, res: Response, next: NextFunction
   }
 };
 
+// Everything that still points at a user, and what deleting them would do to it
+const PENDING_DOCUMENT_STATUSES = ['pending-hod', 'pending-principal'];
+
+const findUserReferences = async (userId: string) => {
+  const [
+    students,
+    faculty,
+    teams,
+    departments,
+    guidedProjects,
+    coordinatedEvents,
+    pendingDocumentRequests,
+    pendingProfileChanges,
+    attendanceSessions,
+    documentRequests,
+    profileChanges,
+    statusChanges,
+    alumniProfiles
+  ] = await Promise.all([
+    StudentModel.find({ userId }).select('enrollmentNo firstName lastName').lean(),
+    FacultyModel.find({ userId }).select('employeeId designation').lean(),
+    ProjectTeamModel.find({ 'members.userId': userId }).select('name members').lean(),
+    DepartmentModel.find({ hodId: userId }).select('name code').lean(),
+    ProjectModel.find({ 'guide.userId': userId }).select('title').lean(),
+    ProjectEventModel.find({ 'schedule.coordinator.userId': userId }).select('name').lean(),
+    DocumentRequestModel.find({ requestedBy: userId, status: { $in: PENDING_DOCUMENT_STATUSES } })
+      .select('type status')
+      .lean(),
+    ProfileChangeRequestModel.find({ requestedBy: userId, status: 'pending' })
+      .select('status createdAt')
+      .lean(),
+    AttendanceSessionModel.countDocuments({ markedBy: userId }),
+    DocumentRequestModel.countDocuments({
+      $or: [{ requestedBy: userId }, { 'approvals.by': userId }],
+      status: { $nin: PENDING_DOCUMENT_STATUSES }
+    }),
+    ProfileChangeRequestModel.countDocuments({
+      $or: [{ requestedBy: userId }, { reviewedBy: userId }],
+      status: { $ne: 'pending' }
+    }),
+    StudentStatusChangeModel.countDocuments({ changedBy: userId }),
+    AlumniProfileModel.countDocuments({ updatedBy: userId })
+  ]);
+
+  // Removing the only leader leaves the team without one
+  const isLeader = (team: (typeof teams)[number], self: boolean) =>
+    team.members.some((member) => (String(member.userId) === userId) === self && member.isLeader);
+  const teamsLosingLeader = teams
+    .filter((team) => isLeader(team, true) && !isLeader(team, false))
+    .map((team) => team.name);
+
+  return {
+    // Cleaned up on cascade
+    students: { action: 'unlink', count: students.length, items: students },
+    faculty: { action: 'delete', count: faculty.length, items: faculty },
+    teams: {
+      action: 'remove-member',
+      count: teams.length,
+      items: teams.map((team) => ({ _id: team._id, name: team.name })),
+      teamsLosingLeader
+    },
+    departments: { action: 'unset-hod', count: departments.length, items: departments },
+    // Must be reassigned by hand first
+    guidedProjects: { action: 'blocking', count: guidedProjects.length, items: guidedProjects },
+    coordinatedEvents: {
+      action: 'blocking',
+      count: coordinatedEvents.length,
+      items: coordinatedEvents
+    },
+    // Withdrawn on cascade, since nobody is left to follow them up
+    pendingDocumentRequests: {
+      action: 'cancel',
+      count: pendingDocumentRequests.length,
+      items: pendingDocumentRequests
+    },
+    pendingProfileChanges: {
+      action: 'cancel',
+      count: pendingProfileChanges.length,
+      items: pendingProfileChanges
+    },
+    // History that keeps pointing at the deleted account
+    attendanceSessions: { action: 'keep', count: attendanceSessions },
+    documentRequests: { action: 'keep', count: documentRequests },
+    profileChanges: { action: 'keep', count: profileChanges },
+    statusChanges: { action: 'keep', count: statusChanges },
+    alumniProfiles: { action: 'keep', count: alumniProfiles }
+  };
+};
+
 export const deleteUser = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const user = await UserModel.findByIdAndDelete(req.params.id);
+    const userId = req.params.id;
+
+    if (userId === req.user!._id.toString()) {
+      return next(new AppError('You cannot delete your own account', 400));
+    }
+
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const references = await findUserReferences(user._id.toString());
+    const referenceCount = Object.values(references).reduce((sum, entry) => sum + entry.count, 0);
+    const blockingCount = references.guidedProjects.count + references.coordinatedEvents.count;
+    const cascade = req.query.cascade === 'true';
+
+    if (referenceCount > 0 && (!cascade || blockingCount > 0)) {
+      return res.status(409).json({
+        status: 'fail',
+        message:
+          blockingCount > 0
+            ? 'This user still guides projects or coordinates events. Reassign them first, or deactivate the account instead'
+            : 'This user is still referenced by other records. Deactivate the account instead, or delete again with cascade=true',
+        data: { references }
+      });
+    }
+
+    // History such as jury evaluations, attendance marked and approvals given stays as it is
+    if (referenceCount > 0) {
+      await StudentModel.updateMany({ userId: user._id }, { $unset: { userId: 1 } });
+      await FacultyModel.deleteMany({ userId: user._id });
+      await ProjectTeamModel.updateMany(
+        { 'members.userId': user._id },
+        { $pull: { members: { userId: user._id } } }
+      );
+      await DepartmentModel.updateMany({ hodId: user._id }, { $unset: { hodId: 1 } });
+      await DocumentRequestModel.updateMany(
+        { requestedBy: user._id, status: { $in: PENDING_DOCUMENT_STATUSES } },
+        { $set: { status: 'cancelled' } }
+      );
+      await ProfileChangeRequestModel.updateMany(
+        { requestedBy: user._id, status: 'pending' },
+        { $set: { status: 'cancelled' } }
+      );
+    }
+
+    const adminId = req.user!._id.toString();
+    await endUserSessions(user._id.toString(), 'forced-logout', undefined, adminId);
+    await ApiKeyModel.updateMany(
+      { serviceAccount: user._id, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+    await UserModel.findByIdAndDelete(user._id);
+
+    res.status(200).json({
+      status: 'success',
+      data: { references }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Suspend, deactivate or reactivate an account without losing any of its records
+export const updateUserStatus = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, reason } = req.body;
+
+    if (!['active', 'suspended', 'deactivated'].includes(status)) {
+      return next(new AppError('Status must be active, suspended or deactivated', 400));
+    }
+
+    if (status !== 'active' && (!reason || !String(reason).trim())) {
+      return next(new AppError('Please provide a reason', 400));
+    }
+
+    const adminId = req.user!._id.toString();
+    if (req.params.id === adminId) {
+      return next(new AppError('You cannot change the status of your own account', 400));
+    }
+
+    const user = await UserModel.findById(req.params.id);
     if (!user) {
       return next(new AppError('User not found', 404));
     }
-    res.status(204).json({
+
+    if (status !== 'active' && user.roles.includes('admin')) {
+      const otherAdmins = await UserModel.countDocuments({
+        _id: { $ne: user._id },
+        roles: 'admin',
+        status: { $in: ['active', null] }
+      });
+      if (otherAdmins === 0) {
+        return next(new AppError('The last active admin cannot be suspended or deactivated', 400));
+      }
+    }
+
+    user.status = status;
+    user.statusReason = status === 'active' ? undefined : String(reason).trim();
+    user.statusChangedAt = new Date();
+    user.statusChangedBy = adminId;
+    await user.save({ validateBeforeSave: false });
+
+    if (status !== 'active') {
+      // API keys of a service account stop working along with the account itself
+      await endUserSessions(user._id.toString(), 'forced-logout', undefined, adminId);
+    }
+
+    res.status(200).json({
       status: 'success',
-      data: null
+      data: {
+        user: {
+          _id: user._id,
+          name: user.name,
+          email: user.email,
+          status: user.status,
+          statusReason: user.statusReason,
+          statusChangedAt: user.statusChangedAt
+        }
+      }
     });
   } catch (error) {
     next(error);
@@ -174,6 +404,7 @@ export const importUsers = async (req: Request & { file?: Express.Multer.File },
 
     const users = [];
     const errors = [];
+    let setupEmailsSent = 0;
 
     for (const row of results) {
       try {
@@ -183,6 +414,7 @@ export const importUsers = async (req: Request & { file?: Express.Multer.File },
           email: row['Email'] || row.email,
           department: row['Department'] || row.department,
           roles: row['Roles'] || row.roles,
+          password: row['Password'] || row.password,
           selectedRole: row['Selected Role'] || row.selectedRole || 'faculty'
         };
 
@@ -208,12 +440,12 @@ export const importUsers = async (req: Request & { file?: Express.Multer.File },
           ? userData.roles.split(',').map((role: string) => role.trim())
           : ['faculty'];
 
-        // Create user
-        const hashedPassword = await bcrypt.hash('User@123', 12);
+        // Create user; rows without a password get a random one and a set-password email
         const user = await UserModel.create({
           name: userData.name,
           email: userData.email,
-          password: hashedPassword,
+          password: userData.password || generateTemporaryPassword(),
+          passwordChangeRequired: true,
           department: department._id,
           roles: roles,
           selectedRole: userData.selectedRole
@@ -221,6 +453,10 @@ export const importUsers = async (req: Request & { file?: Express.Multer.File },
 
         const populatedUser = await user.populate('department', 'name');
         users.push(populatedUser);
+        if (!userData.password) {
+          await sendAccountSetupEmail(user);
+          setupEmailsSent++;
+        }
       } catch (error) {
         errors.push(`Error creating user ${row['Name'] || row.name}: ${error.message}`);
       }
@@ -231,6 +467,7 @@ export const importUsers = async (req: Request & { file?: Express.Multer.File },
       data: { 
         users,
         errors,
+        setupEmailsSent,
         summary: `Successfully imported ${users.length} users. ${errors.length} errors encountered.`
       }
     });
@@ -285,7 +522,8 @@ export const exportUsers = async (_: Request, res: Response, next: NextFunction)
 
 // Role Management
 export const getRoles = async (_: Request, res: Response) => {
-  const roles = ['student', 'faculty', 'hod', 'principal', 'admin', 'jury'];
+  const customRoles = await RoleModel.distinct('name');
+  const roles = Array.from(new Set([...Object.keys(BUILT_IN_ROLES), ...customRoles]));
   res.status(200).json({
     status: 'success',
     data: { roles }
@@ -314,3 +552,118 @@ export const assignRoles = async (req: Request, res: Response, next: NextFunctio
     next(error);
   }
 };
+
+// Login Security
+export const unlockUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await UserModel.findById(req.params.id);
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    await resetLoginFailures(user._id.toString());
+    const unlockedUser = await UserModel.findById(user._id).select('-password');
+
+    res.status(200).json({
+      status: 'success',
+      data: { user: unlockedUser }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Clear a user's second factor, e.g. after a lost phone; they enroll again at next login
+export const resetTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await UserModel.findByIdAndUpdate(
+      req.params.id,
+      {
+        $set: { 'twoFactor.enabled': false, 'twoFactor.recoveryCodes': [] },
+        $unset: {
+          'twoFactor.secret': 1,
+          'twoFactor.pendingSecret': 1,
+          'twoFactor.lastUsedStep': 1,
+          'twoFactor.enabledAt': 1
+        }
+      },
+      { new: true }
+    ).select('-password');
+
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: { user }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getLoginAttempts = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 100;
+    const skip = (page - 1) * limit;
+    const { email, ip, outcome, success, from, to } = req.query;
+
+    // Build query
+    const query: any = {};
+    const userId = req.params.id || req.query.userId;
+
+    // Query values are coerced to strings so a crafted query can't smuggle in operators
+    if (userId) {
+      if (!mongoose.Types.ObjectId.isValid(String(userId))) {
+        return next(new AppError('Invalid user ID', 400));
+      }
+      query.userId = String(userId);
+    }
+    if (email) query.email = String(email).toLowerCase();
+    if (ip) query.ip = String(ip);
+    if (outcome && outcome !== 'all') {
+      if (!(LOGIN_ATTEMPT_OUTCOMES as readonly string[]).includes(String(outcome))) {
+        return next(new AppError(`Outcome must be one of: ${LOGIN_ATTEMPT_OUTCOMES.join(', ')}`, 400));
+      }
+      query.outcome = String(outcome);
+    }
+    if (success === 'true' || success === 'false') query.success = success === 'true';
+    if (from || to) {
+      const fromDate = from ? new Date(String(from)) : undefined;
+      const toDate = to ? new Date(String(to)) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return next(new AppError('Invalid date range', 400));
+      }
+      query.createdAt = {};
+      if (fromDate) query.createdAt.$gte = fromDate;
+      if (toDate) query.createdAt.$lte = toDate;
+    }
+
+    const [attempts, total] = await Promise.all([
+      LoginAttemptModel.find(query)
+        .populate('userId', 'name email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      LoginAttemptModel.countDocuments(query)
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        attempts,
+        pagination: {
+          total,
+          totalPages: Math.ceil(total / limit),
+          currentPage: page,
+          limit
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,377 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Parser } from 'json2csv';
+import { StudentModel } from '../models/student.model';
+import { DepartmentModel } from '../models/department.model';
+import {
+  ALUMNI_OUTCOMES,
+  AlumniProfileModel,
+  IAlumniProfile
+} from '../models/alumni-profile.model';
+import { AppError } from '../middleware/error.middleware';
+import { assertDepartmentScope } from '../middleware/auth.middleware';
+import { catchAsync } from '../utils/catchAsync';
+import { hashToken } from '../utils/token.utils';
+import { queueEmail } from '../utils/mailer';
+
+// Fields the alumnus, or staff on their behalf, can fill in
+const OUTCOME_FIELDS = [
+  'outcome',
+  'higherStudies.programme',
+  'higherStudies.institution',
+  'higherStudies.startYear',
+  'employment.organization',
+  'employment.designation',
+  'employment.location',
+  'employment.startDate',
+  'contact.email',
+  'contact.mobile',
+  'contact.city',
+  'contact.linkedin',
+  'consentToContact'
+];
+
+type AlumniStudent = {
+  _id: mongoose.Types.ObjectId;
+  enrollmentNo: string;
+  fullName?: string;
+  firstName?: string;
+  lastName?: string;
+  personalEmail?: string;
+  institutionalEmail?: string;
+  contact?: { email?: string };
+  departmentId?: mongoose.Types.ObjectId;
+  admissionYear?: number;
+  convoYear?: number;
+};
+
+const studentName = (student: AlumniStudent): string =>
+  student.fullName || [student.firstName, student.lastName].filter(Boolean).join(' ');
+
+// One profile per graduate, created the first time anyone touches it
+const findOrCreateProfile = async (student: AlumniStudent) =>
+  AlumniProfileModel.findOneAndUpdate(
+    { student: student._id },
+    {
+      $set: {
+        department: student.departmentId,
+        admissionYear: student.admissionYear,
+        convoYear: student.convoYear
+      }
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+const applyOutcome = (profile: IAlumniProfile, body: any): void => {
+  if (body.outcome !== undefined && !ALUMNI_OUTCOMES.includes(body.outcome)) {
+    throw new AppError(`Outcome must be one of: ${ALUMNI_OUTCOMES.join(', ')}`, 400);
+  }
+
+  for (const path of OUTCOME_FIELDS) {
+    const value = path.split('.').reduce((source, key) => source?.[key], body);
+    if (value !== undefined) profile.set(path, value);
+  }
+};
+
+const buildGraduateQuery = (req: Request, source: Record<string, unknown>) => {
+  const { departmentId, admissionYear, convoYear } = source;
+
+  const query: any = { status: 'graduated' };
+  if (departmentId && departmentId !== 'all') {
+    if (!mongoose.Types.ObjectId.isValid(String(departmentId))) {
+      throw new AppError('Invalid department', 400);
+    }
+    query.departmentId = String(departmentId);
+  }
+  if (admissionYear && admissionYear !== 'all') {
+    query.admissionYear = parseInt(admissionYear as string);
+  }
+  if (convoYear && convoYear !== 'all') query.convoYear = parseInt(convoYear as string);
+  if (req.departmentScope) query.departmentId = req.departmentScope;
+  return query;
+};
+
+// Staff
+export const getAlumni = catchAsync(async (req: Request, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 100;
+  const skip = (page - 1) * limit;
+  const { outcome, responded } = req.query;
+
+  const query = buildGraduateQuery(req, req.query);
+
+  // Outcome filters live on the profile, so narrow the students to matching profiles first
+  if ((outcome && outcome !== 'all') || responded !== undefined) {
+    const profileQuery: any = { respondedAt: { $exists: true } };
+    if (outcome && outcome !== 'all') profileQuery.outcome = outcome;
+    const studentIds = await AlumniProfileModel.distinct('student', profileQuery);
+    query._id = responded === 'false' ? { $nin: studentIds } : { $in: studentIds };
+  }
+
+  const [students, total] = await Promise.all([
+    StudentModel.find(query)
+      .select('enrollmentNo fullName firstName lastName departmentId admissionYear convoYear batch')
+      .populate('departmentId', 'name')
+      .sort({ admissionYear: -1, enrollmentNo: 1 })
+      .skip(skip)
+      .limit(limit)
+      .lean(),
+    StudentModel.countDocuments(query)
+  ]);
+
+  const profiles = await AlumniProfileModel.find({
+    student: { $in: students.map((student) => student._id) }
+  }).lean();
+  const profilesByStudent = new Map(
+    profiles.map((profile) => [String(profile.student), profile])
+  );
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      alumni: students.map((student) => ({
+        student,
+        profile: profilesByStudent.get(String(student._id)) || null
+      })),
+      pagination: {
+        total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: page,
+        limit
+      }
+    }
+  });
+});
+
+export const updateAlumniProfile = catchAsync(async (req: Request, res: Response) => {
+  const student = await StudentModel.findOne({
+    _id: req.params.studentId,
+    status: 'graduated'
+  }).lean();
+  if (!student) {
+    throw new AppError('No graduated student found with that ID', 404);
+  }
+  assertDepartmentScope(req, student.departmentId);
+
+  const profile = await findOrCreateProfile(student as unknown as AlumniStudent);
+  applyOutcome(profile, req.body);
+  profile.respondedAt = profile.respondedAt || new Date();
+  profile.updatedBy = req.user!._id;
+  await profile.save();
+
+  res.status(200).json({
+    status: 'success',
+    data: { profile }
+  });
+});
+
+/**
+ * Email each graduate matching the filter a personal link for reporting what they do now.
+ * Sending again replaces the earlier link.
+ */
+export const sendAlumniLinks = catchAsync(async (req: Request, res: Response) => {
+  const { studentIds, onlyPending } = req.body;
+  const query = buildGraduateQuery(req, req.body);
+  if (Array.isArray(studentIds) && studentIds.length > 0) query._id = { $in: studentIds };
+
+  if (onlyPending === true || onlyPending === 'true') {
+    const responded = await AlumniProfileModel.distinct('student', {
+      respondedAt: { $exists: true }
+    });
+    query._id = { ...(query._id || {}), $nin: responded };
+  }
+
+  const students = (await StudentModel.find(query)
+    .select([
+      'enrollmentNo fullName firstName lastName',
+      'personalEmail institutionalEmail contact.email',
+      'departmentId admissionYear convoYear'
+    ].join(' '))
+    .lean()) as unknown as AlumniStudent[];
+
+  const clientUrl = process.env.CLIENT_URL || 'http://localhost:3000';
+  const expiresInDays = parseInt(process.env.ALUMNI_LINK_EXPIRES_DAYS || '') || 30;
+  const sent: string[] = [];
+  const skipped: { enrollmentNo: string; reason: string }[] = [];
+
+  for (const student of students) {
+    const profile = await findOrCreateProfile(student);
+    const to =
+      profile.contact?.email ||
+      student.personalEmail ||
+      student.contact?.email ||
+      student.institutionalEmail;
+    if (!to) {
+      skipped.push({ enrollmentNo: student.enrollmentNo, reason: 'No email address on record' });
+      continue;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    profile.linkTokenHash = hashToken(token);
+    profile.linkExpiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+    profile.linkSentAt = new Date();
+    await profile.save();
+
+    await queueEmail(
+      {
+        to,
+        subject: 'Tell us what you are doing now',
+        text:
+          `Hello ${studentName(student) || student.enrollmentNo},\n\n` +
+          'Your department would like to know about your studies or work since your diploma.\n' +
+          'It takes a minute, and you can also update your contact details there.\n' +
+          `The link below works until ${profile.linkExpiresAt.toDateString()}.\n\n` +
+          `${clientUrl}/alumni/update/${token}`
+      },
+      'alumni-link'
+    );
+    sent.push(student.enrollmentNo);
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      sent: sent.length,
+      skipped
+    }
+  });
+});
+
+/**
+ * Outcomes per department and admission year, as counts and as a share of those who
+ * responded. Add format=csv for a spreadsheet.
+ */
+export const getCohortReport = catchAsync(async (req: Request, res: Response) => {
+  const query = buildGraduateQuery(req, req.query);
+  if (query.departmentId) query.departmentId = new mongoose.Types.ObjectId(query.departmentId);
+
+  const graduates = await StudentModel.aggregate([
+    { $match: query },
+    {
+      $group: {
+        _id: { department: '$departmentId', admissionYear: '$admissionYear' },
+        studentIds: { $push: '$_id' }
+      }
+    }
+  ]);
+
+  const [profiles, departments] = await Promise.all([
+    AlumniProfileModel.find({
+      student: { $in: graduates.flatMap((group) => group.studentIds) },
+      respondedAt: { $exists: true }
+    })
+      .select('student outcome')
+      .lean(),
+    DepartmentModel.find({ _id: { $in: graduates.map((group) => group._id.department) } })
+      .select('name')
+      .lean()
+  ]);
+  const outcomeByStudent = new Map(
+    profiles.map((profile) => [String(profile.student), profile.outcome || 'other'])
+  );
+  const departmentNames = new Map(
+    departments.map((department) => [String(department._id), department.name])
+  );
+  const percent = (count: number, total: number) =>
+    total === 0 ? 0 : Math.round((count / total) * 10000) / 100;
+
+  const cohorts = graduates
+    .map((group) => {
+      const counts: Record<string, number> = Object.fromEntries(
+        ALUMNI_OUTCOMES.map((outcome) => [outcome, 0])
+      );
+      let responded = 0;
+      for (const id of group.studentIds) {
+        const outcome = outcomeByStudent.get(String(id));
+        if (!outcome) continue;
+        responded++;
+        counts[outcome]++;
+      }
+
+      return {
+        department: departmentNames.get(String(group._id.department)) || 'Unassigned',
+        admissionYear: group._id.admissionYear,
+        graduated: group.studentIds.length,
+        responded,
+        responseRate: percent(responded, group.studentIds.length),
+        outcomes: counts,
+        outcomeShare: Object.fromEntries(
+          Object.entries(counts).map(([outcome, count]) => [outcome, percent(count, responded)])
+        )
+      };
+    })
+    .sort(
+      (a, b) => a.department.localeCompare(b.department) || b.admissionYear - a.admissionYear
+    );
+
+  if (req.query.format === 'csv') {
+    const rows = cohorts.map(({ outcomes, outcomeShare, ...cohort }) => ({
+      ...cohort,
+      ...Object.fromEntries(
+        ALUMNI_OUTCOMES.flatMap((outcome) => [
+          [outcome, outcomes[outcome]],
+          [`${outcome} %`, outcomeShare[outcome]]
+        ])
+      )
+    }));
+    const parser = new Parser();
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', 'attachment; filename=alumni-cohorts.csv');
+    res.status(200).send(parser.parse(rows));
+  } else {
+    res.status(200).json({
+      status: 'success',
+      data: { cohorts }
+    });
+  }
+});
+
+// Self-service, authenticated by the emailed link instead of a login
+const findProfileByToken = async (token: string) => {
+  const profile = await AlumniProfileModel.findOne({
+    linkTokenHash: hashToken(token),
+    linkExpiresAt: { $gt: new Date() }
+  });
+  if (!profile) {
+    throw new AppError(
+      'This link is invalid or has expired. Please ask your department for a new one',
+      404
+    );
+  }
+  return profile;
+};
+
+export const getSelfServiceProfile = catchAsync(async (req: Request, res: Response) => {
+  const profile = await findProfileByToken(req.params.token);
+  const student = await StudentModel.findById(profile.student)
+    .select('enrollmentNo fullName firstName lastName departmentId admissionYear convoYear')
+    .populate('departmentId', 'name')
+    .lean();
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      student,
+      profile,
+      outcomes: ALUMNI_OUTCOMES
+    }
+  });
+});
+
+export const submitSelfServiceProfile = catchAsync(async (req: Request, res: Response) => {
+  if (!req.body.outcome) {
+    throw new AppError('Please tell us what you are doing now', 400);
+  }
+
+  const profile = await findProfileByToken(req.params.token);
+  applyOutcome(profile, req.body);
+  profile.respondedAt = new Date();
+  profile.updatedBy = undefined;
+  await profile.save();
+
+  res.status(200).json({
+    status: 'success',
+    data: { profile }
+  });
+});
@@ -0,0 +1,318 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { UserModel } from '../models/user.model';
+import { ApiKeyModel, IApiKey } from '../models/api-key.model';
+import { ApiKeyUsageModel } from '../models/api-key-usage.model';
+import { DepartmentModel } from '../models/department.model';
+import { AppError } from '../middleware/error.middleware';
+import { generateApiKey } from '../utils/api-key';
+import { generateTemporaryPassword } from '../utils/password-policy';
+import { PERMISSIONS, grants, isValidPermission, resolvePermissions } from '../utils/permissions';
+
+// Every requested permission must be real and already held by the admin handing it out
+const findInvalidPermissions = async (req: Request, permissions: string[]): Promise<string[]> => {
+  const held = req.role ? await resolvePermissions(req.role) : [];
+  return permissions.filter(
+    (permission) =>
+      permission === '*' ||
+      !isValidPermission(permission) ||
+      !PERMISSIONS.some((known) => grants([permission], known)) ||
+      !grants(held, permission)
+  );
+};
+
+const getExpiry = (expiresInDays?: number): Date => {
+  const days = expiresInDays || parseInt(process.env.API_KEY_DEFAULT_EXPIRES_DAYS || '') || 365;
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+};
+
+// The secret is only ever returned here, right after it is generated
+const sendNewKey = (res: Response, statusCode: number, apiKey: IApiKey, key: string): void => {
+  const data = apiKey.toObject();
+  delete data.keyHash;
+
+  res.status(statusCode).json({
+    status: 'success',
+    data: {
+      apiKey: data,
+      key
+    }
+  });
+};
+
+// Service Accounts
+export const createServiceAccount = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, description, department } = req.body;
+
+    if (!name) {
+      return next(new AppError('Please provide a name for the service account', 400));
+    }
+
+    const slug = String(name)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+
+    const account = await UserModel.create({
+      name,
+      description,
+      department,
+      // Placeholder identity; service accounts never receive email or log in
+      email: `svc-${slug}-${crypto.randomBytes(3).toString('hex')}@service.invalid`,
+      password: generateTemporaryPassword(),
+      accountType: 'service',
+      roles: []
+    });
+
+    // Only the public fields; the document still carries the hashed placeholder password
+    res.status(201).json({
+      status: 'success',
+      data: {
+        serviceAccount: {
+          _id: account._id,
+          name: account.name,
+          description: account.description,
+          department: account.department,
+          accountType: account.accountType,
+          roles: account.roles,
+          status: account.status,
+          createdAt: account.get('createdAt')
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getServiceAccounts = async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const accounts = await UserModel.find({ accountType: 'service' })
+      .populate('department', 'name')
+      .sort({ name: 1 })
+      .lean();
+
+    const activeKeyCounts = await ApiKeyModel.aggregate([
+      { $match: { revokedAt: { $exists: false } } },
+      { $group: { _id: '$serviceAccount', count: { $sum: 1 } } }
+    ]);
+    const countByAccount = new Map(
+      activeKeyCounts.map((entry) => [String(entry._id), entry.count])
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: accounts.length,
+      data: {
+        serviceAccounts: accounts.map((account) => ({
+          ...account,
+          activeKeys: countByAccount.get(String(account._id)) || 0
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteServiceAccount = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const account = await UserModel.findOne({ _id: req.params.id, accountType: 'service' });
+
+    if (!account) {
+      return next(new AppError('Service account not found', 404));
+    }
+
+    // Keys are revoked rather than deleted so their usage history stays readable
+    await ApiKeyModel.updateMany(
+      { serviceAccount: account._id, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+    await UserModel.findByIdAndDelete(account._id);
+
+    res.status(204).json({
+      status: 'success',
+      data: null
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// API Keys
+export const createApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, permissions, department, expiresInDays } = req.body;
+
+    if (!name || !Array.isArray(permissions) || permissions.length === 0) {
+      return next(new AppError('Please provide a name and at least one permission', 400));
+    }
+
+    const account = await UserModel.findOne({ _id: req.params.id, accountType: 'service' });
+    if (!account) {
+      return next(new AppError('Service account not found', 404));
+    }
+
+    const invalid = await findInvalidPermissions(req, permissions);
+    if (invalid.length > 0) {
+      return next(new AppError(`Permissions cannot be granted: ${invalid.join(', ')}`, 400));
+    }
+
+    if (department && !(await DepartmentModel.exists({ _id: department }))) {
+      return next(new AppError('Department not found', 404));
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey = await ApiKeyModel.create({
+      name,
+      serviceAccount: account._id,
+      prefix,
+      keyHash,
+      permissions,
+      department: department || account.department,
+      expiresAt: getExpiry(parseInt(expiresInDays)),
+      createdBy: req.user!._id
+    });
+
+    sendNewKey(res, 201, apiKey, key);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getApiKeys = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query: any = {};
+    if (req.params.id) query.serviceAccount = req.params.id;
+    if (req.query.serviceAccount) query.serviceAccount = req.query.serviceAccount;
+    if (req.query.active === 'true') {
+      query.revokedAt = { $exists: false };
+      query.expiresAt = { $gt: new Date() };
+    }
+
+    const apiKeys = await ApiKeyModel.find(query)
+      .populate('serviceAccount', 'name')
+      .populate('department', 'name')
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      status: 'success',
+      results: apiKeys.length,
+      data: { apiKeys }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Issue a replacement with the same grants; the old key keeps working for a grace period
+export const rotateApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const current = await ApiKeyModel.findById(req.params.id);
+
+    if (!current || current.revokedAt) {
+      return next(new AppError('API key not found or already revoked', 404));
+    }
+
+    if (current.replacedBy) {
+      return next(new AppError('This API key has already been rotated', 400));
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const replacement = await ApiKeyModel.create({
+      name: current.name,
+      serviceAccount: current.serviceAccount,
+      prefix,
+      keyHash,
+      permissions: current.permissions,
+      department: current.department,
+      expiresAt: getExpiry(parseInt(req.body.expiresInDays)),
+      createdBy: req.user!._id
+    });
+
+    const graceHours = parseInt(process.env.API_KEY_ROTATION_GRACE_HOURS || '') || 24;
+    const graceEnd = new Date(Date.now() + graceHours * 60 * 60 * 1000);
+    current.replacedBy = replacement._id;
+    if (!current.expiresAt || current.expiresAt > graceEnd) {
+      current.expiresAt = graceEnd;
+    }
+    await current.save();
+
+    sendNewKey(res, 201, replacement, key);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiKey = await ApiKeyModel.findById(req.params.id);
+
+    if (!apiKey) {
+      return next(new AppError('API key not found', 404));
+    }
+
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await apiKey.save();
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: { apiKey }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getApiKeyUsage = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 100;
+    const skip = (page - 1) * limit;
+    const { from, to } = req.query;
+
+    const apiKey = await ApiKeyModel.findById(req.params.id);
+    if (!apiKey) {
+      return next(new AppError('API key not found', 404));
+    }
+
+    // Build query
+    const query: any = { apiKey: apiKey._id };
+    if (from || to) {
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = new Date(from as string);
+      if (to) query.createdAt.$lte = new Date(to as string);
+    }
+
+    const [usage, total] = await Promise.all([
+      ApiKeyUsageModel.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+      ApiKeyUsageModel.countDocuments(query)
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        apiKey: {
+          _id: apiKey._id,
+          name: apiKey.name,
+          prefix: apiKey.prefix,
+          usageCount: apiKey.usageCount,
+          lastUsedAt: apiKey.lastUsedAt,
+          lastUsedIp: apiKey.lastUsedIp
+        },
+        usage,
+        pagination: {
+          total,
+          totalPages: Math.ceil(total / limit),
+          currentPage: page,
+          limit
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,428 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { StudentModel } from '../models/student.model';
+import { SubjectModel, ISubject } from '../models/subject.model';
+import {
+  AttendanceSessionModel,
+  AttendanceStatus,
+  IAttendanceRecord
+} from '../models/attendance-session.model';
+import { AppError } from '../middleware/error.middleware';
+import { assertDepartmentScope } from '../middleware/auth.middleware';
+import { catchAsync } from '../utils/catchAsync';
+import {
+  AttendanceFilter,
+  getDetentionList,
+  getDetentionThreshold,
+  summarizeAttendance
+} from '../utils/attendance';
+
+const STATUSES: AttendanceStatus[] = ['present', 'absent'];
+
+interface RosterStudent {
+  _id: mongoose.Types.ObjectId;
+  enrollmentNo: string;
+}
+
+const parseObjectId = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === '' || value === 'all') return undefined;
+  if (!mongoose.Types.ObjectId.isValid(String(value))) {
+    throw new AppError(`Invalid ${field}`, 400);
+  }
+  return String(value);
+};
+
+const parseDate = (value: unknown, field: string): Date | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new AppError(`Invalid ${field}`, 400);
+  }
+  return date;
+};
+
+// Sessions are recorded per day, so dates are stored at midnight UTC
+const toSessionDate = (value: unknown): Date => {
+  const date = parseDate(value, 'session date');
+  if (!date) {
+    throw new AppError('Session date is required', 400);
+  }
+  date.setUTCHours(0, 0, 0, 0);
+  if (date.getTime() > Date.now()) {
+    throw new AppError('Attendance cannot be marked for a future date', 400);
+  }
+  return date;
+};
+
+const parseFilter = (req: Request): AttendanceFilter => {
+  const { semester, batch, type } = req.query;
+  const filter: AttendanceFilter = {
+    departmentId: parseObjectId(req.query.departmentId, 'department'),
+    subjectId: parseObjectId(req.query.subjectId, 'subject'),
+    from: parseDate(req.query.from, 'start date'),
+    to: parseDate(req.query.to, 'end date')
+  };
+  if (semester && semester !== 'all') filter.semester = parseInt(semester as string);
+  if (batch && batch !== 'all') filter.batch = String(batch);
+  if (type === 'lecture' || type === 'lab') filter.type = type;
+  if (req.departmentScope) filter.departmentId = req.departmentScope;
+  return filter;
+};
+
+// Active students of the subject's department and semester in the given batch
+const loadRoster = async (subject: ISubject, batch: string): Promise<RosterStudent[]> =>
+  StudentModel.find({
+    departmentId: subject.departmentId,
+    semester: subject.semester,
+    batch,
+    status: 'active'
+  })
+    .select('_id enrollmentNo')
+    .lean() as unknown as Promise<RosterStudent[]>;
+
+// Students may be referred to by their ID or enrollment number
+const matchStudent = (
+  students: RosterStudent[],
+  key: unknown
+): RosterStudent | undefined =>
+  students.find(
+    (student) => String(student._id) === String(key) || student.enrollmentNo === String(key)
+  );
+
+/**
+ * Turns the marking payload into one record per student. Either `records` lists each
+ * student's status, or `absentees` lists those absent and the rest of the roster is present.
+ * A lab group is only part of the batch, so its members have to be listed in `records`;
+ * filling in the whole roster would mark the other groups present.
+ */
+const buildRecords = (roster: RosterStudent[], body: any): IAttendanceRecord[] => {
+  const unknown: string[] = [];
+  let records: IAttendanceRecord[];
+
+  if (body.group && !Array.isArray(body.records)) {
+    throw new AppError('Sessions for a group must list each student in records', 400);
+  }
+
+  if (Array.isArray(body.records)) {
+    records = [];
+    for (const entry of body.records) {
+      const key = entry?.student ?? entry?.enrollmentNo;
+      const student = matchStudent(roster, key);
+      if (!student) {
+        unknown.push(String(key));
+        continue;
+      }
+      if (!STATUSES.includes(entry.status)) {
+        throw new AppError(`Status for ${student.enrollmentNo} must be present or absent`, 400);
+      }
+      records.push({ student: student._id, status: entry.status });
+    }
+  } else {
+    const absentees = Array.isArray(body.absentees) ? body.absentees : [];
+    const absentIds = new Set<string>();
+    for (const key of absentees) {
+      const student = matchStudent(roster, key);
+      if (student) absentIds.add(String(student._id));
+      else unknown.push(String(key));
+    }
+    records = roster.map((student) => ({
+      student: student._id,
+      status: absentIds.has(String(student._id)) ? 'absent' : 'present'
+    }));
+  }
+
+  if (unknown.length > 0) {
+    throw new AppError(
+      `These students are not on the roster for this batch: ${unknown.join(', ')}`,
+      400
+    );
+  }
+
+  const seen = new Set<string>();
+  for (const record of records) {
+    if (seen.has(String(record.student))) {
+      throw new AppError('Each student can only be marked once per session', 400);
+    }
+    seen.add(String(record.student));
+  }
+
+  if (records.length === 0) {
+    throw new AppError('There are no students to mark attendance for', 400);
+  }
+  return records;
+};
+
+const countRecords = (records: IAttendanceRecord[]) => ({
+  present: records.filter((record) => record.status === 'present').length,
+  absent: records.filter((record) => record.status === 'absent').length
+});
+
+// Sessions
+export const createSession = catchAsync(async (req: Request, res: Response) => {
+  const { subjectId, batch, group, topic } = req.body;
+  const type = req.body.type || 'lecture';
+  const slot = parseInt(req.body.slot) || 1;
+
+  if (!batch) {
+    throw new AppError('Batch is required', 400);
+  }
+  if (type !== 'lecture' && type !== 'lab') {
+    throw new AppError('Session type must be lecture or lab', 400);
+  }
+
+  const subject = await SubjectModel.findById(parseObjectId(subjectId, 'subject'));
+  if (!subject) {
+    throw new AppError('No subject found with that ID', 404);
+  }
+  assertDepartmentScope(req, subject.departmentId);
+  if (!subject.isActive) {
+    throw new AppError('This subject is no longer active', 400);
+  }
+  if ((type === 'lab' && !subject.hasLab) || (type === 'lecture' && !subject.hasLecture)) {
+    throw new AppError(`${subject.code} has no ${type} sessions`, 400);
+  }
+
+  const date = toSessionDate(req.body.date);
+  const duplicate = await AttendanceSessionModel.exists({
+    subjectId: subject._id,
+    batch,
+    type,
+    group: group || null,
+    date,
+    slot
+  });
+  if (duplicate) {
+    throw new AppError('Attendance for this session has already been marked', 409);
+  }
+
+  const roster = await loadRoster(subject, batch);
+  const records = buildRecords(roster, req.body);
+
+  const session = await AttendanceSessionModel.create({
+    subjectId: subject._id,
+    departmentId: subject.departmentId,
+    semester: subject.semester,
+    batch,
+    type,
+    date,
+    slot,
+    group: group || undefined,
+    topic,
+    markedBy: req.user!._id,
+    records
+  });
+
+  res.status(201).json({
+    status: 'success',
+    data: {
+      session,
+      counts: countRecords(session.records)
+    }
+  });
+});
+
+export const getSessions = catchAsync(async (req: Request, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 100;
+  const skip = (page - 1) * limit;
+  const filter = parseFilter(req);
+
+  const query: any = {};
+  if (filter.departmentId) query.departmentId = filter.departmentId;
+  if (filter.semester) query.semester = filter.semester;
+  if (filter.batch) query.batch = filter.batch;
+  if (filter.subjectId) query.subjectId = filter.subjectId;
+  if (filter.type) query.type = filter.type;
+  if (filter.from || filter.to) {
+    query.date = {};
+    if (filter.from) query.date.$gte = filter.from;
+    if (filter.to) query.date.$lte = filter.to;
+  }
+
+  const [sessions, total] = await Promise.all([
+    AttendanceSessionModel.find(query)
+      .populate('subjectId', 'code name')
+      .populate('markedBy', 'name')
+      .sort({ date: -1, slot: 1 })
+      .skip(skip)
+      .limit(limit)
+      .lean(),
+    AttendanceSessionModel.countDocuments(query)
+  ]);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      sessions: sessions.map(({ records, ...session }) => ({
+        ...session,
+        counts: countRecords(records)
+      })),
+      pagination: {
+        total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: page,
+        limit
+      }
+    }
+  });
+});
+
+const findSession = async (req: Request) => {
+  const session = await AttendanceSessionModel.findById(parseObjectId(req.params.id, 'session ID'));
+  if (!session) {
+    throw new AppError('No attendance session found with that ID', 404);
+  }
+  assertDepartmentScope(req, session.departmentId);
+  return session;
+};
+
+export const getSession = catchAsync(async (req: Request, res: Response) => {
+  const session = await findSession(req);
+  await session.populate([
+    { path: 'subjectId', select: 'code name' },
+    { path: 'markedBy', select: 'name' },
+    { path: 'records.student', select: 'enrollmentNo fullName' }
+  ]);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      session,
+      counts: countRecords(session.records)
+    }
+  });
+});
+
+// Corrects individual students' marks; students not listed keep their status
+export const updateSession = catchAsync(async (req: Request, res: Response) => {
+  const session = await findSession(req);
+
+  if (Array.isArray(req.body.records)) {
+    const onRegister = await StudentModel.find({
+      _id: { $in: session.records.map((record) => record.student) }
+    })
+      .select('_id enrollmentNo')
+      .lean() as unknown as RosterStudent[];
+
+    const unknown: string[] = [];
+    for (const entry of req.body.records) {
+      const key = entry?.student ?? entry?.enrollmentNo;
+      const student = matchStudent(onRegister, key);
+      if (!student) {
+        unknown.push(String(key));
+        continue;
+      }
+      if (!STATUSES.includes(entry.status)) {
+        throw new AppError(`Status for ${student.enrollmentNo} must be present or absent`, 400);
+      }
+      const record = session.records.find((item) => String(item.student) === String(student._id));
+      record!.status = entry.status;
+    }
+    if (unknown.length > 0) {
+      throw new AppError(
+        `These students are not on this session's register: ${unknown.join(', ')}`,
+        400
+      );
+    }
+    session.markModified('records');
+  }
+  if (req.body.topic !== undefined) session.topic = req.body.topic;
+
+  await session.save();
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      session,
+      counts: countRecords(session.records)
+    }
+  });
+});
+
+export const deleteSession = catchAsync(async (req: Request, res: Response) => {
+  const session = await findSession(req);
+  await AttendanceSessionModel.findByIdAndDelete(session._id);
+
+  res.status(204).json({
+    status: 'success',
+    data: null
+  });
+});
+
+// Reports
+export const getAttendanceSummary = catchAsync(async (req: Request, res: Response) => {
+  const students = await summarizeAttendance(parseFilter(req));
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      total: students.length,
+      students
+    }
+  });
+});
+
+export const getDetentionReport = catchAsync(async (req: Request, res: Response) => {
+  let threshold = getDetentionThreshold();
+  if (req.query.threshold !== undefined) {
+    threshold = parseFloat(req.query.threshold as string);
+    if (isNaN(threshold) || threshold < 0 || threshold > 100) {
+      throw new AppError('Threshold must be a percentage between 0 and 100', 400);
+    }
+  }
+
+  const students = await getDetentionList(parseFilter(req), threshold);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      threshold,
+      total: students.length,
+      students
+    }
+  });
+});
+
+const respondWithStudentAttendance = async (
+  req: Request,
+  res: Response,
+  studentId: string
+): Promise<void> => {
+  const filter = parseFilter(req);
+  const [summary] = await summarizeAttendance({
+    student: studentId,
+    subjectId: filter.subjectId,
+    semester: filter.semester,
+    type: filter.type,
+    from: filter.from,
+    to: filter.to
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      threshold: getDetentionThreshold(),
+      subjects: summary?.subjects || [],
+      overall: summary?.overall || { present: 0, total: 0, percentage: 0 }
+    }
+  });
+};
+
+export const getStudentAttendance = catchAsync(async (req: Request, res: Response) => {
+  const student = await StudentModel.findById(parseObjectId(req.params.studentId, 'student ID'));
+  if (!student) {
+    throw new AppError('No student found with that ID', 404);
+  }
+  assertDepartmentScope(req, student.departmentId);
+
+  await respondWithStudentAttendance(req, res, String(student._id));
+});
+
+export const getMyAttendance = catchAsync(async (req: Request, res: Response) => {
+  const student = await StudentModel.findOne({ userId: req.user!._id });
+  if (!student) {
+    throw new AppError('No student record is linked to your account', 404);
+  }
+
+  await respondWithStudentAttendance(req, res, String(student._id));
+});
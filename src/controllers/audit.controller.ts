@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from 'express';
+import { Parser } from 'json2csv';
+import { AuditLogModel } from '../models/audit-log.model';
+import { AppError } from '../middleware/error.middleware';
+import { parseDateRange, parseObjectIdFilter } from '../utils/query-filters';
+
+const AUDIT_ACTIONS = ['create', 'update', 'delete'];
+
+const buildAuditQuery = (req: Request) => {
+  const { actor, actorEmail, role, impersonator, action, entity, entityId, field, from, to } =
+    req.query;
+
+  // Build query
+  const query: any = {};
+
+  const actorId = parseObjectIdFilter(actor, 'actor');
+  if (actorId) query.actor = actorId;
+  if (actorEmail) query.actorEmail = String(actorEmail).toLowerCase();
+  if (role) query.role = String(role);
+  const impersonatorId = parseObjectIdFilter(impersonator, 'impersonator');
+  if (impersonatorId) query.impersonator = impersonatorId;
+  if (action && action !== 'all') {
+    if (!AUDIT_ACTIONS.includes(String(action))) {
+      throw new AppError(`Action must be one of: ${AUDIT_ACTIONS.join(', ')}`, 400);
+    }
+    query.action = String(action);
+  }
+  if (entity) query.entity = String(entity);
+  if (entityId) query.entityId = String(entityId);
+  if (field) query.changedFields = String(field);
+
+  const createdAt = parseDateRange(from, to);
+  if (createdAt) query.createdAt = createdAt;
+
+  return query;
+};
+
+export const getAuditLogs = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 100;
+    const skip = (page - 1) * limit;
+    const query = buildAuditQuery(req);
+
+    const [logs, total] = await Promise.all([
+      AuditLogModel.find(query)
+        .populate('actor', 'name email')
+        .populate('impersonator', 'name email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      AuditLogModel.countDocuments(query)
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        logs,
+        pagination: {
+          total,
+          totalPages: Math.ceil(total / limit),
+          currentPage: page,
+          limit
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const exportAuditLogs = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const maxRows = parseInt(process.env.AUDIT_EXPORT_LIMIT || '') || 10000;
+    const logs = await AuditLogModel.find(buildAuditQuery(req))
+      .sort({ createdAt: -1 })
+      .limit(maxRows)
+      .lean();
+
+    const fields = [
+      { label: 'Timestamp', value: 'timestamp' },
+      { label: 'Actor', value: 'actor' },
+      { label: 'Role', value: 'role' },
+      { label: 'Impersonated By', value: 'impersonator' },
+      { label: 'Action', value: 'action' },
+      { label: 'Entity', value: 'entity' },
+      { label: 'Entity ID', value: 'entityId' },
+      { label: 'Changed Fields', value: 'changedFields' },
+      { label: 'Before', value: 'before' },
+      { label: 'After', value: 'after' },
+      { label: 'Method', value: 'method' },
+      { label: 'Path', value: 'path' },
+      { label: 'IP', value: 'ip' }
+    ];
+
+    const rows = logs.map((log) => ({
+      timestamp: new Date(log.createdAt).toISOString(),
+      actor: log.actorEmail || 'system',
+      role: log.role || '',
+      impersonator: log.impersonator ? String(log.impersonator) : '',
+      action: log.action,
+      entity: log.entity,
+      entityId: log.entityId,
+      changedFields: (log.changedFields || []).join(', '),
+      before: log.before ? JSON.stringify(log.before) : '',
+      after: log.after ? JSON.stringify(log.after) : '',
+      method: log.method || '',
+      path: log.path || '',
+      ip: log.ip || ''
+    }));
+
+    const json2csvParser = new Parser({ fields });
+    const csv = json2csvParser.parse(rows);
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', 'attachment; filename=audit-log.csv');
+
+    res.status(200).send(csv);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,36 +1,95 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
 import { UserModel, IUser } from '../models/user.model';
+import { RefreshTokenModel } from '../models/refresh-token.model';
+import { InvitationModel } from '../models/invitation.model';
+import { DepartmentModel } from '../models/department.model';
 import { AppError } from '../middleware/error.middleware';
 import { syncStudentUser } from './student.controller';
+import {
+  hashToken,
+  signAccessToken,
+  issueRefreshToken,
+  endSession,
+  endUserSessions,
+  extendSession,
+  isSessionActive,
+  createSendToken,
+  signChallengeToken,
+  signSsoLinkToken,
+  verifySsoLinkToken
+} from '../utils/token.utils';
+import { findUnknownRoles, isTwoFactorRequired } from '../utils/permissions';
+import {
+  STATE_TTL_MS,
+  buildAuthorizationUrl,
+  completeAuthorization,
+  getOidcSettings
+} from '../utils/oidc';
+import { queueEmail } from '../utils/mailer';
+import {
+  checkAccountAllowed,
+  checkIpAllowed,
+  recordLoginAttempt,
+  registerLoginFailure,
+  releaseLoginAttempt,
+  reserveLoginAttempt,
+  resetLoginFailures,
+  getInactiveMessage
+} from '../utils/login-guard';
+import { sendVerificationEmail, verifyEmailVerificationToken } from '../utils/email-verification';
+import {
+  generateTemporaryPassword,
+  getPasswordPolicy,
+  isPasswordExpired
+} from '../utils/password-policy';
 
-const signToken = (id: string, selectedRole: string): string => {
-  const secret = process.env.JWT_SECRET;
+const needsSecondFactor = async (user: IUser): Promise<boolean> =>
+  Boolean(user.twoFactor?.enabled) || isTwoFactorRequired(user.roles);
 
-  if (!secret) {
-    throw new Error('JWT_SECRET is not defined');
-  }
+const needsPasswordChange = (user: IUser): boolean =>
+  Boolean(user.passwordChangeRequired) ||
+  isPasswordExpired(user.passwordChangedAt || user.get('createdAt'));
 
-  return jwt.sign(
-    { id, selectedRole },
-    secret
-  );
+// Hold back the session: the client finishes with /2fa/verify, or enrolls first via /2fa/setup
+const sendTwoFactorChallenge = (user: IUser, statusCode: number, res: Response): void => {
+  res.status(statusCode).json({
+    status: 'success',
+    twoFactorRequired: true,
+    twoFactorSetupRequired: !user.twoFactor?.enabled,
+    challengeToken: signChallengeToken(user._id.toString()),
+  });
 };
 
-const createSendToken = (user: IUser, statusCode: number, res: Response): void => {
-  const token = signToken(user._id.toString(), user.selectedRole!);
+// The steps every login ends with once the user is identified and allowed in
+const finishLogin = async (
+  user: IUser,
+  email: string,
+  req: Request,
+  res: Response
+): Promise<void> => {
+  // Temporary and expired passwords have to be replaced before anything else
+  if (needsPasswordChange(user)) {
+    await resetLoginFailures(user._id.toString());
+    await recordLoginAttempt(req, email, 'password-change-pending', user);
+    res.status(200).json({
+      status: 'success',
+      passwordChangeRequired: true,
+      passwordExpired: !user.passwordChangeRequired,
+      challengeToken: signChallengeToken(user._id.toString(), 'password-change'),
+    });
+    return;
+  }
 
-  // Remove password from output
-  const userObject = user.toObject();
-  delete userObject.password;
+  // Users with two-factor still have to pass the second step
+  if (await needsSecondFactor(user)) {
+    await recordLoginAttempt(req, email, 'second-factor-pending', user);
+    return sendTwoFactorChallenge(user, 200, res);
+  }
 
-  res.status(statusCode).json({
-    status: 'success',
-    token,
-    data: {
-      user: userObject,
-    },
-  });
+  await resetLoginFailures(user._id.toString());
+  await recordLoginAttempt(req, email, 'success', user);
+  await createSendToken(user, 200, req, res);
 };
 
 export const signup = async (
@@ -39,21 +98,31 @@ export const signup = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    // Checked first so a bad department can't leave behind an account without a student record
+    const { department } = req.body;
+    if (
+      department &&
+      (!mongoose.Types.ObjectId.isValid(String(department)) ||
+        !(await DepartmentModel.exists({ _id: department })))
+    ) {
+      return next(new AppError('Department not found', 400));
+    }
+
+    // Public signup is for students only; staff accounts come through invitations
     const newUser = await UserModel.create({
       name: req.body.name,
       email: req.body.email,
       password: req.body.password,
       department: req.body.department,
-      roles: req.body.roles || ['student'],
-      selectedRole: req.body.selectedRole,
+      roles: ['student'],
+      selectedRole: 'student',
+      emailVerified: false,
     });
 
-    // If user has student role, create student record
-    if (newUser.roles.includes('student')) {
-      await syncStudentUser(newUser);
-    }
+    await syncStudentUser(newUser);
+    await sendVerificationEmail(newUser);
 
-    createSendToken(newUser, 201, res);
+    await createSendToken(newUser, 201, req, res);
   } catch (error) {
     next(error);
   }
@@ -71,27 +140,289 @@ export const login = async (
     if (!email || !password) {
       return next(new AppError('Please provide email and password', 400));
     }
+    const normalizedEmail = String(email).toLowerCase().trim();
 
-    // 2) Check if user exists && password is correct
-    const user = await UserModel.findOne({ email }).select('+password');
+    // 2) Refuse addresses that are hammering the login
+    const ipBlock = await checkIpAllowed(req.ip);
+    if (ipBlock) {
+      await recordLoginAttempt(req, normalizedEmail, ipBlock.outcome);
+      res.setHeader('Retry-After', ipBlock.retryAfterSeconds);
+      return next(new AppError(ipBlock.message, 429));
+    }
+
+    // 3) Check if user exists && is not locked out && password is correct
+    const user = await UserModel.findOne({ email: normalizedEmail }).select('+password');
 
-    if (!user || !(await user.comparePassword(password))) {
+    // Service accounts only authenticate with API keys
+    if (!user || user.accountType === 'service') {
+      await recordLoginAttempt(req, normalizedEmail, 'unknown-user');
       return next(new AppError('Incorrect email or password', 401));
     }
 
-    // 3) Check if selected role is valid for this user
+    const accountBlock = await reserveLoginAttempt(user);
+    if (accountBlock) {
+      await recordLoginAttempt(req, normalizedEmail, accountBlock.outcome, user);
+      res.setHeader('Retry-After', accountBlock.retryAfterSeconds);
+      return next(new AppError(accountBlock.message, accountBlock.outcome === 'locked' ? 423 : 429));
+    }
+
+    if (!(await user.comparePassword(password))) {
+      await registerLoginFailure(user);
+      await recordLoginAttempt(req, normalizedEmail, 'invalid-credentials', user);
+      return next(new AppError('Incorrect email or password', 401));
+    }
+    await releaseLoginAttempt(user);
+
+    // Only tell the right password holder that the account is suspended or deactivated
+    const inactiveMessage = getInactiveMessage(user);
+    if (inactiveMessage) {
+      await recordLoginAttempt(req, normalizedEmail, 'inactive', user);
+      return next(new AppError(inactiveMessage, 403));
+    }
+
+    // 4) Check if selected role is valid for this user
     if (selectedRole && !user.roles.includes(selectedRole)) {
       return next(new AppError('Invalid role selected', 400));
     }
 
-    // 4) Update selected role if provided
+    // 5) Update selected role if provided
     if (selectedRole) {
       user.selectedRole = selectedRole;
       await user.save({ validateBeforeSave: false });
     }
 
-    // 5) If everything ok, send token
-    createSendToken(user, 200, res);
+    // 6) Password change, second factor, then the session
+    await finishLogin(user, normalizedEmail, req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+const OIDC_BINDING_COOKIE = 'oidc_binding';
+
+const readCookie = (req: Request, name: string): string | undefined =>
+  (req.headers.cookie || '')
+    .split(';')
+    .map((part) => part.trim().split('='))
+    .find(([key]) => key === name)?.[1];
+
+// Single sign-on: send the browser to the provider's login page
+export const startOidcLogin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const settings = getOidcSettings();
+    if (!settings) {
+      return next(new AppError('Single sign-on is not configured', 404));
+    }
+
+    const { authorizationUrl, binding } = await buildAuthorizationUrl(settings);
+
+    // A full-page redirect can't hand the binding to the client, so it travels as a cookie
+    if (req.query.redirect === 'true') {
+      res.cookie(OIDC_BINDING_COOKIE, binding, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: STATE_TTL_MS,
+      });
+      return res.redirect(authorizationUrl);
+    }
+
+    // Otherwise the client keeps it and posts it back with the code and state
+    res.status(200).json({
+      status: 'success',
+      data: { authorizationUrl, binding },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Single sign-on callback: the client posts the code and state the provider redirected with
+export const completeOidcLogin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code, state } = req.body;
+    const binding = req.body.binding || readCookie(req, OIDC_BINDING_COOKIE);
+
+    const settings = getOidcSettings();
+    if (!settings) {
+      return next(new AppError('Single sign-on is not configured', 404));
+    }
+
+    if (!code || !state || !binding) {
+      return next(new AppError('Please provide the code and state from the provider', 400));
+    }
+    res.clearCookie(OIDC_BINDING_COOKIE);
+
+    // 1) Verify the provider's answer
+    const identity = await completeAuthorization(
+      settings,
+      String(code),
+      String(state),
+      decodeURIComponent(String(binding))
+    );
+
+    // 2) Map the provider's email to a portal account
+    let user = await UserModel.findOne({ email: identity.email });
+
+    if (user?.accountType === 'service') {
+      return next(new AppError('No portal account exists for this email address', 403));
+    }
+
+    if (user?.sso?.subject && user.sso.issuer === identity.issuer) {
+      // A reassigned mailbox at the provider must not inherit someone else's portal account
+      if (user.sso.subject !== identity.subject) {
+        await recordLoginAttempt(req, identity.email, 'invalid-credentials', user);
+        return next(new AppError('This account is linked to a different sign-on identity', 403));
+      }
+    }
+
+    // 3) Or provision one with the default role
+    let provisioned = false;
+    if (!user) {
+      const allowedDomains = (process.env.OIDC_ALLOWED_DOMAINS || '')
+        .split(',')
+        .map((domain) => domain.trim().toLowerCase())
+        .filter(Boolean);
+      const domain = identity.email.split('@')[1];
+
+      if (
+        process.env.OIDC_AUTO_PROVISION === 'false' ||
+        (allowedDomains.length > 0 && !allowedDomains.includes(domain))
+      ) {
+        await recordLoginAttempt(req, identity.email, 'unknown-user');
+        return next(new AppError('No portal account exists for this email address', 403));
+      }
+
+      const defaultRole = process.env.OIDC_DEFAULT_ROLE || 'faculty';
+      if ((await findUnknownRoles([defaultRole])).length > 0) {
+        return next(new AppError('Single sign-on default role is not configured correctly', 500));
+      }
+
+      // The account can only be used through SSO until a password is set via reset
+      user = await UserModel.create({
+        name: identity.name || identity.email.split('@')[0],
+        email: identity.email,
+        password: generateTemporaryPassword(),
+        roles: [defaultRole],
+        selectedRole: defaultRole,
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+        sso: { issuer: identity.issuer, subject: identity.subject, linkedAt: new Date() },
+      });
+      provisioned = true;
+
+      if (defaultRole === 'student') {
+        await syncStudentUser(user);
+      }
+    }
+
+    // 4) Lockouts and suspensions apply however the user signs in
+    const accountBlock = checkAccountAllowed(user);
+    if (accountBlock) {
+      await recordLoginAttempt(req, identity.email, accountBlock.outcome, user);
+      res.setHeader('Retry-After', accountBlock.retryAfterSeconds);
+      return next(new AppError(accountBlock.message, accountBlock.outcome === 'locked' ? 423 : 429));
+    }
+
+    const inactiveMessage = getInactiveMessage(user);
+    if (inactiveMessage) {
+      await recordLoginAttempt(req, identity.email, 'inactive', user);
+      return next(new AppError(inactiveMessage, 403));
+    }
+
+    // 5) An existing account is only linked to the identity once its owner confirms with
+    // their portal password, through /oidc/link
+    if (!provisioned && (!user.sso?.subject || user.sso.issuer !== identity.issuer)) {
+      await recordLoginAttempt(req, identity.email, 'sso-link-pending', user);
+      res.status(200).json({
+        status: 'success',
+        ssoLinkRequired: true,
+        linkToken: signSsoLinkToken(user._id.toString(), identity.issuer, identity.subject),
+      });
+      return;
+    }
+
+    if (user.emailVerified === false) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save({ validateBeforeSave: false });
+    }
+
+    // 6) The portal's own password rules and second factor still apply
+    await finishLogin(user, identity.email, req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Links an existing account to the sign-on identity from the callback, with its password
+export const linkOidcAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { linkToken, password } = req.body;
+
+    const identity = linkToken ? verifySsoLinkToken(String(linkToken)) : null;
+    if (!identity) {
+      return next(new AppError('Your sign-on attempt has expired. Please try again', 401));
+    }
+    if (!password) {
+      return next(new AppError('Please provide your portal password', 400));
+    }
+
+    const user = await UserModel.findById(identity.id).select('+password');
+    if (!user) {
+      return next(new AppError('User no longer exists', 401));
+    }
+
+    const accountBlock = await reserveLoginAttempt(user);
+    if (accountBlock) {
+      await recordLoginAttempt(req, user.email, accountBlock.outcome, user);
+      res.setHeader('Retry-After', accountBlock.retryAfterSeconds);
+      return next(new AppError(accountBlock.message, accountBlock.outcome === 'locked' ? 423 : 429));
+    }
+
+    if (!(await user.comparePassword(String(password)))) {
+      await registerLoginFailure(user);
+      await recordLoginAttempt(req, user.email, 'invalid-credentials', user);
+      return next(new AppError('Incorrect password', 401));
+    }
+    await releaseLoginAttempt(user);
+
+    const inactiveMessage = getInactiveMessage(user);
+    if (inactiveMessage) {
+      await recordLoginAttempt(req, user.email, 'inactive', user);
+      return next(new AppError(inactiveMessage, 403));
+    }
+
+    // Another account may have claimed the identity since the callback
+    const claimed = await UserModel.exists({
+      _id: { $ne: user._id },
+      'sso.issuer': identity.issuer,
+      'sso.subject': identity.subject,
+    });
+    if (claimed) {
+      return next(new AppError('This sign-on identity is linked to another account', 409));
+    }
+
+    user.sso = { issuer: identity.issuer, subject: identity.subject, linkedAt: new Date() };
+    if (user.emailVerified === false) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save({ validateBeforeSave: false });
+
+    await finishLogin(user, user.email, req, res);
   } catch (error) {
     next(error);
   }
@@ -133,7 +464,381 @@ export const switchRole = async (
       await syncStudentUser(user);
     }
 
-    createSendToken(user, 200, res);
+    // Each role gets its own session; the old one can no longer be renewed
+    if (req.sessionId) {
+      await endSession(req.sessionId, 'role-switch');
+    }
+    await createSendToken(user, 200, req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refresh = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return next(new AppError('Please provide a refresh token', 400));
+    }
+
+    // 1) Claim the presented token in one step, so two requests can't both rotate it
+    const tokenHash = hashToken(refreshToken);
+    const stored = await RefreshTokenModel.findOneAndUpdate(
+      { tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+      { $set: { revokedAt: new Date(), revokedReason: 'rotated' } },
+      { new: true }
+    );
+
+    if (!stored) {
+      const existing = await RefreshTokenModel.findOne({ tokenHash });
+      if (!existing) {
+        return next(new AppError('Invalid refresh token', 401));
+      }
+
+      // 2) A rotated token being presented again means it leaked: kill the whole session
+      if (existing.revokedReason === 'rotated') {
+        await endSession(existing.family, 'reuse');
+        return next(new AppError('Refresh token has already been used', 401));
+      }
+      if (existing.revokedAt) {
+        return next(new AppError('Your session has ended. Please log in again', 401));
+      }
+      return next(new AppError('Refresh token has expired', 401));
+    }
+
+    if (!(await isSessionActive(stored.family))) {
+      return next(new AppError('Your session has ended. Please log in again', 401));
+    }
+
+    // 3) Check if user still exists
+    const user = await UserModel.findById(stored.userId);
+    if (!user) {
+      return next(new AppError('User no longer exists', 401));
+    }
+
+    const inactiveMessage = getInactiveMessage(user);
+    if (inactiveMessage) {
+      return next(new AppError(inactiveMessage, 401));
+    }
+
+    // 4) Rotate: issue a replacement in the same family and point the retired token at it
+    const rotated = await issueRefreshToken(
+      user._id.toString(),
+      stored.selectedRole,
+      stored.family,
+      req.ip
+    );
+    await RefreshTokenModel.updateOne(
+      { _id: stored._id },
+      { $set: { replacedByHash: hashToken(rotated.token) } }
+    );
+    await extendSession(stored.family, rotated.expiresAt, req.ip);
+
+    res.status(200).json({
+      status: 'success',
+      token: signAccessToken(user._id.toString(), stored.selectedRole, stored.family),
+      refreshToken: rotated.token,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logout = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return next(new AppError('Please provide a refresh token', 400));
+    }
+
+    // Logging out ends the whole session, not just the presented token
+    const stored = await RefreshTokenModel.findOne({ tokenHash: hashToken(refreshToken) });
+    if (stored) {
+      await endSession(stored.family, 'logout');
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const forgotPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return next(new AppError('Please provide your email', 400));
+    }
+
+    // 1) Find the user, but answer the same way either way so emails can't be probed
+    const user = await UserModel.findOne({ email: String(email).toLowerCase().trim() });
+
+    if (user && user.accountType !== 'service') {
+      // 2) Generate the random reset token
+      const resetToken = user.createPasswordResetToken();
+      await user.save({ validateBeforeSave: false });
+
+      // 3) Send it to the user's email
+      const clientUrl = process.env.CLIENT_URL || 'http://localhost:3000';
+      const resetURL = `${clientUrl}/reset-password/${resetToken}`;
+
+      await queueEmail(
+        {
+          to: user.email,
+          subject: 'Reset your GPP Portal password',
+          text:
+            `Hello ${user.name},\n\n` +
+            `Use the link below to choose a new password. It can be used once and expires soon.\n\n` +
+            `${resetURL}\n\n` +
+            'If you did not ask for a password reset, you can ignore this email.'
+        },
+        'password-reset'
+      );
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'If an account exists for that email, a reset link has been sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resetPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { password } = req.body;
+
+    if (!password) {
+      return next(new AppError('Please provide a new password', 400));
+    }
+
+    // 1) Get user based on the token
+    const user = await UserModel.findOne({
+      passwordResetToken: hashToken(req.params.token),
+      passwordResetExpires: { $gt: new Date() },
+    });
+
+    if (!user) {
+      return next(new AppError('Token is invalid or has expired', 400));
+    }
+
+    const inactiveMessage = getInactiveMessage(user);
+    if (inactiveMessage) {
+      return next(new AppError(inactiveMessage, 403));
+    }
+
+    // 2) Set the new password; the pre-save hook clears the token so it can't be reused
+    user.password = password;
+    await user.save();
+
+    // 3) End every existing session, lift any lockout and log the user in afresh
+    await endUserSessions(user._id.toString(), 'password-change');
+    await resetLoginFailures(user._id.toString());
+    if (await needsSecondFactor(user)) {
+      return sendTwoFactorChallenge(user, 200, res);
+    }
+    await createSendToken(user, 200, req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Second login step for temporary or expired passwords; takes the challenge token from /login
+export const changeExpiredPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { password } = req.body;
+
+    if (!password) {
+      return next(new AppError('Please provide a new password', 400));
+    }
+
+    const user = req.user!;
+    user.password = password;
+    await user.save();
+
+    await endUserSessions(user._id.toString(), 'password-change');
+    if (await needsSecondFactor(user)) {
+      return sendTwoFactorChallenge(user, 200, res);
+    }
+    await recordLoginAttempt(req, user.email, 'success', user);
+    await createSendToken(user, 200, req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Lets the client show the rules before the user submits a password
+export const getPasswordRules = (_req: Request, res: Response): void => {
+  const { historySize, maxAgeDays, ...rules } = getPasswordPolicy();
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      policy: {
+        ...rules,
+        historySize,
+        maxAgeDays,
+        disallowCommonPasswords: true,
+        disallowPersonalInformation: true,
+      },
+    },
+  });
+};
+
+export const getInvitation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const invitation = await InvitationModel.findOne({
+      tokenHash: hashToken(req.params.token),
+      status: 'pending',
+      expiresAt: { $gt: new Date() },
+    }).populate('department', 'name');
+
+    if (!invitation) {
+      return next(new AppError('Invitation is invalid or has expired', 400));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        invitation: {
+          email: invitation.email,
+          name: invitation.name,
+          roles: invitation.roles,
+          department: invitation.department,
+          expiresAt: invitation.expiresAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const acceptInvitation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { name, password } = req.body;
+
+    if (!password) {
+      return next(new AppError('Please provide a password', 400));
+    }
+
+    // 1) Claim the invitation atomically so it can only be accepted once
+    const invitation = await InvitationModel.findOneAndUpdate(
+      {
+        tokenHash: hashToken(req.params.token),
+        status: 'pending',
+        expiresAt: { $gt: new Date() },
+      },
+      { status: 'accepted', acceptedAt: new Date() },
+      { new: true }
+    );
+
+    if (!invitation) {
+      return next(new AppError('Invitation is invalid or has expired', 400));
+    }
+
+    // 2) Create the account with the roles and department the admin assigned
+    let newUser;
+    try {
+      newUser = await UserModel.create({
+        name: name || invitation.name,
+        email: invitation.email,
+        password,
+        department: invitation.department,
+        roles: invitation.roles,
+        selectedRole: invitation.roles[0],
+        // Opening the emailed invitation link already proves the address
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      });
+    } catch (error) {
+      // Release the invitation so the user can retry with valid details
+      await InvitationModel.updateOne(
+        { _id: invitation._id },
+        { status: 'pending', $unset: { acceptedAt: 1 } }
+      );
+      throw error;
+    }
+
+    await InvitationModel.updateOne({ _id: invitation._id }, { acceptedUser: newUser._id });
+
+    if (await needsSecondFactor(newUser)) {
+      return sendTwoFactorChallenge(newUser, 201, res);
+    }
+    await createSendToken(newUser, 201, req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyEmail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const claims = verifyEmailVerificationToken(req.params.token);
+    if (!claims) {
+      return next(new AppError('Verification link is invalid or has expired', 400));
+    }
+
+    // The address must still be the one the link was sent to
+    const user = await UserModel.findOne({ _id: claims.id, email: claims.email });
+    if (!user) {
+      return next(new AppError('Verification link is invalid or has expired', 400));
+    }
+
+    if (user.emailVerified !== false) {
+      res.status(200).json({
+        status: 'success',
+        message: 'Email address is already verified',
+      });
+      return;
+    }
+
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Email address verified',
+    });
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,314 @@
+import { Request, Response } from 'express';
+import { StudentModel } from '../models/student.model';
+import { DepartmentModel } from '../models/department.model';
+import {
+  DOCUMENT_TYPES,
+  DocumentRequestModel,
+  DocumentRequestStatus,
+  IDocumentRequest
+} from '../models/document-request.model';
+import { AppError } from '../middleware/error.middleware';
+import { assertDepartmentScope, hasPermission } from '../middleware/auth.middleware';
+import { catchAsync } from '../utils/catchAsync';
+import { renderPdf, withBrowser } from '../utils/pdf';
+import {
+  DOCUMENT_TITLES,
+  generateVerificationCode,
+  renderCertificateHtml
+} from '../utils/certificates';
+
+// Which permission acts at each stage, and where an approval moves the request next
+const STAGES: Partial<
+  Record<DocumentRequestStatus, { stage: 'hod' | 'principal'; permission: string }>
+> = {
+  'pending-hod': { stage: 'hod', permission: 'documents:review' },
+  'pending-principal': { stage: 'principal', permission: 'documents:issue' }
+};
+
+const findOwnStudent = async (req: Request) => {
+  const student = await StudentModel.findOne({ userId: req.user!._id });
+  if (!student) {
+    throw new AppError('No student record is linked to your account', 404);
+  }
+  return student;
+};
+
+// Student Requests
+export const applyForDocument = catchAsync(async (req: Request, res: Response) => {
+  const { type, purpose, academicYear } = req.body;
+
+  if (!DOCUMENT_TYPES.includes(type)) {
+    throw new AppError(`Document type must be one of: ${DOCUMENT_TYPES.join(', ')}`, 400);
+  }
+
+  const student = await findOwnStudent(req);
+  if (!student.enrollmentNo) {
+    throw new AppError('Your enrollment number has not been issued yet', 400);
+  }
+
+  const open = await DocumentRequestModel.exists({
+    student: student._id,
+    type,
+    status: { $in: ['pending-hod', 'pending-principal'] }
+  });
+  if (open) {
+    const title = DOCUMENT_TITLES[type as keyof typeof DOCUMENT_TITLES];
+    throw new AppError(`You already have a ${title} request in progress`, 409);
+  }
+
+  const request = await DocumentRequestModel.create({
+    student: student._id,
+    department: student.departmentId,
+    requestedBy: req.user!._id,
+    type,
+    purpose,
+    academicYear
+  });
+
+  res.status(201).json({
+    status: 'success',
+    data: { request }
+  });
+});
+
+export const getMyDocumentRequests = catchAsync(async (req: Request, res: Response) => {
+  const student = await findOwnStudent(req);
+  const requests = await DocumentRequestModel.find({ student: student._id })
+    .populate('approvals.by', 'name')
+    .sort({ createdAt: -1 });
+
+  res.status(200).json({
+    status: 'success',
+    data: { requests }
+  });
+});
+
+export const cancelDocumentRequest = catchAsync(async (req: Request, res: Response) => {
+  const student = await findOwnStudent(req);
+  const request = await DocumentRequestModel.findOneAndUpdate(
+    {
+      _id: req.params.id,
+      student: student._id,
+      status: { $in: ['pending-hod', 'pending-principal'] }
+    },
+    { status: 'cancelled' },
+    { new: true }
+  );
+
+  if (!request) {
+    throw new AppError('No request in progress found with that ID', 404);
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: { request }
+  });
+});
+
+// Staff Review
+export const getDocumentRequests = catchAsync(async (req: Request, res: Response) => {
+  const canReview = await hasPermission(req, 'documents:review');
+  const canIssue = await hasPermission(req, 'documents:issue');
+  if (!canReview && !canIssue) {
+    throw new AppError('You do not have permission to perform this action', 403);
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 100;
+  const skip = (page - 1) * limit;
+  const { status, type, department } = req.query;
+
+  // Build query; by default each reviewer sees the queue waiting on them
+  const query: any = {};
+  if (status && status !== 'all') {
+    query.status = status;
+  } else if (!status) {
+    query.status = canIssue && !canReview ? 'pending-principal' : 'pending-hod';
+  }
+  if (type && type !== 'all') query.type = type;
+  if (department && department !== 'all') query.department = department;
+  if (req.departmentScope) query.department = req.departmentScope;
+
+  const [requests, total] = await Promise.all([
+    DocumentRequestModel.find(query)
+      .populate('student', 'enrollmentNo fullName semester batch')
+      .populate('department', 'name')
+      .populate('approvals.by', 'name')
+      .sort({ createdAt: 1 })
+      .skip(skip)
+      .limit(limit),
+    DocumentRequestModel.countDocuments(query)
+  ]);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      requests,
+      pagination: {
+        total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: page,
+        limit
+      }
+    }
+  });
+});
+
+// The stage the request is waiting on, once the reviewer is confirmed to act for it
+const loadForReview = async (req: Request) => {
+  const request = await DocumentRequestModel.findById(req.params.id);
+  if (!request) {
+    throw new AppError('No document request found with that ID', 404);
+  }
+
+  const stage = STAGES[request.status];
+  if (!stage) {
+    throw new AppError(`This request has already been ${request.status}`, 409);
+  }
+  if (!(await hasPermission(req, stage.permission))) {
+    throw new AppError(`This request is waiting for ${stage.stage.toUpperCase()} approval`, 403);
+  }
+  assertDepartmentScope(req, request.department);
+
+  return { request, stage };
+};
+
+// Claim the transition atomically so two reviewers can't both act on the same stage
+const applyDecision = async (
+  request: IDocumentRequest,
+  update: Record<string, unknown>,
+  approval: Record<string, unknown>
+) => {
+  const updated = await DocumentRequestModel.findOneAndUpdate(
+    { _id: request._id, status: request.status },
+    { $set: update, $push: { approvals: { ...approval, at: new Date() } } },
+    { new: true }
+  );
+  if (!updated) {
+    throw new AppError('This request was updated by someone else. Please reload it', 409);
+  }
+  return updated;
+};
+
+// Final approval issues the document with a snapshot of the student's current details
+const issueDetails = async (request: IDocumentRequest) => {
+  const student = await StudentModel.findById(request.student).lean();
+  if (!student) {
+    throw new AppError('The student for this request no longer exists', 404);
+  }
+  const department = student.departmentId
+    ? await DepartmentModel.findById(student.departmentId).select('name').lean()
+    : null;
+
+  return {
+    status: 'approved',
+    verificationCode: generateVerificationCode(),
+    issuedAt: new Date(),
+    issuedDetails: {
+      name: student.fullName || [student.firstName, student.lastName].filter(Boolean).join(' '),
+      enrollmentNo: student.enrollmentNo,
+      department: department?.name,
+      semester: student.semester,
+      batch: student.batch,
+      admissionYear: student.admissionYear
+    }
+  };
+};
+
+export const approveDocumentRequest = catchAsync(async (req: Request, res: Response) => {
+  const { request, stage } = await loadForReview(req);
+  const approval = {
+    stage: stage.stage,
+    decision: 'approved',
+    by: req.user!._id,
+    remarks: req.body.remarks
+  };
+
+  const updated =
+    stage.stage === 'hod'
+      ? await applyDecision(request, { status: 'pending-principal' }, approval)
+      : await applyDecision(request, await issueDetails(request), approval);
+
+  res.status(200).json({
+    status: 'success',
+    data: { request: updated }
+  });
+});
+
+export const rejectDocumentRequest = catchAsync(async (req: Request, res: Response) => {
+  const { reason } = req.body;
+  if (!reason || !String(reason).trim()) {
+    throw new AppError('Please provide a reason for rejecting the request', 400);
+  }
+
+  const { request, stage } = await loadForReview(req);
+  const updated = await applyDecision(
+    request,
+    { status: 'rejected', rejectionReason: String(reason).trim() },
+    { stage: stage.stage, decision: 'rejected', by: req.user!._id, remarks: String(reason).trim() }
+  );
+
+  res.status(200).json({
+    status: 'success',
+    data: { request: updated }
+  });
+});
+
+// Issued documents can be downloaded by the student and by anyone who reviews documents
+export const downloadDocument = catchAsync(async (req: Request, res: Response) => {
+  const request = await DocumentRequestModel.findById(req.params.id);
+  if (!request || request.status !== 'approved') {
+    throw new AppError('No issued document found with that ID', 404);
+  }
+
+  const isOwner = String(request.requestedBy) === String(req.user!._id);
+  if (!isOwner) {
+    const isReviewer =
+      (await hasPermission(req, 'documents:review')) ||
+      (await hasPermission(req, 'documents:issue'));
+    if (!isReviewer) {
+      throw new AppError('You do not have permission to perform this action', 403);
+    }
+    assertDepartmentScope(req, request.department);
+  }
+
+  const html = await renderCertificateHtml(request);
+  const pdf = await withBrowser((browser) => renderPdf(browser, html));
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename=${request.type}-certificate-${request.issuedDetails?.enrollmentNo}.pdf`
+  );
+  res.status(200).send(pdf);
+});
+
+// Public: lets anyone holding a printed certificate confirm it was really issued
+export const verifyDocument = catchAsync(async (req: Request, res: Response) => {
+  const code = String(req.params.code).trim().toUpperCase();
+  const request = await DocumentRequestModel.findOne({
+    verificationCode: code,
+    status: 'approved'
+  }).lean();
+
+  if (!request) {
+    throw new AppError('No certificate was issued with this verification code', 404);
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      document: {
+        type: request.type,
+        title: DOCUMENT_TITLES[request.type],
+        verificationCode: request.verificationCode,
+        issuedAt: request.issuedAt,
+        student: {
+          name: request.issuedDetails?.name,
+          enrollmentNo: request.issuedDetails?.enrollmentNo,
+          department: request.issuedDetails?.department
+        }
+      }
+    }
+  });
+});
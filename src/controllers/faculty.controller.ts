@@ -4,14 +4,17 @@ import { UserModel } from '../models/user.model';
 import { DepartmentModel } from '../models/department.model';
 import { catchAsync } from '../utils/async.utils';
 import { AppError } from '../middleware/error.middleware';
+import { assertDepartmentScope } from '../middleware/auth.middleware';
 import csv from 'csv-parse';
 import { stringify } from 'csv-stringify';
 import { Readable } from 'stream';
-import bcrypt from 'bcryptjs';
+import { generateTemporaryPassword } from '../utils/password-policy';
+import { sendAccountSetupEmail } from '../utils/account-setup';
 
 // Export faculty to CSV
-export const exportFacultyCsv = catchAsync(async (_req: Request, res: Response) => {
-  const faculty = await FacultyModel.find()
+export const exportFacultyCsv = catchAsync(async (req: Request, res: Response) => {
+  const query = req.departmentScope ? { departmentId: req.departmentScope } : {};
+  const faculty = await FacultyModel.find(query)
     .populate({
       path: 'userId',
       select: 'name email'
@@ -101,14 +104,16 @@ export const uploadFacultyCsv = catchAsync(async (req: Request, res: Response) =
       let user = await UserModel.findOne({ email: row['Email'] });
       if (!user && row['Email'] && row['Name']) {
         // Create new user only if email and name are provided
-        const password = await bcrypt.hash('Student@123', 12);
+        // Random password; the new member sets their own through the account setup email
         user = await UserModel.create({
           name: row['Name'],
           email: row['Email'],
-          password,
+          password: generateTemporaryPassword(),
+          passwordChangeRequired: true,
           roles: ['faculty'],
           department: department._id
         });
+        await sendAccountSetupEmail(user);
       }
 
       if (!user) {
@@ -164,6 +169,7 @@ export const uploadFacultyCsv = catchAsync(async (req: Request, res: Response) =
 // Create faculty
 export const createFaculty = catchAsync(async (req: Request, res: Response) => {
   const { name, email, password, departmentId, employeeId, ...facultyData } = req.body;
+  assertDepartmentScope(req, departmentId);
 
   // Check if department exists
   const department = await DepartmentModel.findById(departmentId);
@@ -216,8 +222,9 @@ export const createFaculty = catchAsync(async (req: Request, res: Response) => {
 });
 
 // Get all faculty members
-export const getAllFaculty = catchAsync(async (_: Request, res: Response) => {
-  const faculty = await FacultyModel.find()
+export const getAllFaculty = catchAsync(async (req: Request, res: Response) => {
+  const query = req.departmentScope ? { departmentId: req.departmentScope } : {};
+  const faculty = await FacultyModel.find(query)
     .populate('userId', 'name email')
     .populate('departmentId', 'name');
 
@@ -236,6 +243,7 @@ export const getFaculty = catchAsync(async (req: Request, res: Response) => {
   if (!faculty) {
     throw new AppError('No faculty found with that ID', 404);
   }
+  assertDepartmentScope(req, faculty.departmentId);
 
   res.status(200).json({
     status: 'success',
@@ -258,6 +266,10 @@ export const updateFaculty = catchAsync(async (req: Request, res: Response) => {
   if (!faculty) {
     throw new AppError('No faculty found with that ID', 404);
   }
+  assertDepartmentScope(req, faculty.departmentId);
+  if (req.body.departmentId) {
+    assertDepartmentScope(req, req.body.departmentId);
+  }
 
   // Update user if name or email is provided
   if (req.body.name || req.body.email) {
@@ -306,6 +318,7 @@ export const deleteFaculty = catchAsync(async (req: Request, res: Response) => {
   if (!faculty) {
     throw new AppError('No faculty found with that ID', 404);
   }
+  assertDepartmentScope(req, faculty.departmentId);
 
   // Get the associated user
   const user = await UserModel.findById(faculty.userId);
@@ -333,6 +346,7 @@ export const deleteFaculty = catchAsync(async (req: Request, res: Response) => {
 
 // Get faculty by department
 export const getFacultyByDepartment = catchAsync(async (req: Request, res: Response) => {
+  assertDepartmentScope(req, req.params.departmentId);
   const faculty = await FacultyModel.find({ departmentId: req.params.departmentId })
     .populate('userId', 'name email')
     .populate('departmentId', 'name');
@@ -0,0 +1,188 @@
+import { Request, Response, NextFunction } from 'express';
+import { UserModel } from '../models/user.model';
+import { ImpersonationLogModel } from '../models/impersonation-log.model';
+import { AppError } from '../middleware/error.middleware';
+import { endSession, signImpersonationToken, startSession } from '../utils/token.utils';
+import { grants, resolvePermissions } from '../utils/permissions';
+import { parseDateRange, parseObjectIdFilter } from '../utils/query-filters';
+
+const IMPERSONATION_ACTIONS = ['start', 'request', 'end'];
+
+// Issue a short-lived token that lets an admin see the portal exactly as the target user does
+export const startImpersonation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { reason, role } = req.body;
+
+    if (!reason || !String(reason).trim()) {
+      return next(new AppError('Please provide a reason for impersonating this user', 400));
+    }
+
+    const target = await UserModel.findById(req.params.id);
+    if (!target) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (target.accountType === 'service') {
+      return next(new AppError('Service accounts cannot be impersonated', 400));
+    }
+
+    if (target._id.toString() === req.user!._id.toString()) {
+      return next(new AppError('You cannot impersonate yourself', 400));
+    }
+
+    // Viewing as another administrator would hand out their powers without their credentials
+    for (const targetRole of target.roles) {
+      const granted = await resolvePermissions(targetRole);
+      if (grants(granted, 'users:impersonate')) {
+        return next(new AppError('Administrators cannot be impersonated', 403));
+      }
+    }
+
+    const selectedRole = role || target.selectedRole;
+    if (!target.roles.includes(selectedRole)) {
+      return next(new AppError('Invalid role selected', 400));
+    }
+
+    const minutes = parseInt(process.env.IMPERSONATION_EXPIRES_MINUTES || '') || 30;
+    const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+    const adminId = req.user!._id.toString();
+
+    const sid = await startSession(target, req, {
+      selectedRole,
+      expiresAt,
+      impersonatedBy: adminId
+    });
+    const token = signImpersonationToken(
+      target._id.toString(),
+      selectedRole,
+      sid,
+      adminId,
+      expiresAt
+    );
+
+    await ImpersonationLogModel.create({
+      impersonator: req.user!._id,
+      userId: target._id,
+      sid,
+      action: 'start',
+      role: selectedRole,
+      reason: String(reason).trim(),
+      ip: req.ip
+    });
+
+    res.status(201).json({
+      status: 'success',
+      token,
+      impersonation: {
+        impersonator: { _id: req.user!._id, name: req.user!.name, email: req.user!.email },
+        role: selectedRole,
+        expiresAt
+      },
+      data: {
+        user: {
+          _id: target._id,
+          name: target.name,
+          email: target.email,
+          roles: target.roles,
+          selectedRole
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Called with the impersonation token itself; hands control back to the admin's own session
+export const endImpersonation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.impersonator || !req.sessionId) {
+      return next(new AppError('You are not impersonating anyone', 400));
+    }
+
+    await endSession(req.sessionId, 'logout', req.impersonator._id.toString());
+    await ImpersonationLogModel.create({
+      impersonator: req.impersonator._id,
+      userId: req.user!._id,
+      sid: req.sessionId,
+      action: 'end',
+      role: req.role,
+      ip: req.ip
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Impersonation ended'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getImpersonationLogs = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 100;
+    const skip = (page - 1) * limit;
+    const { impersonator, userId, sid, action, blocked, from, to } = req.query;
+
+    // Build query
+    const query: any = {};
+
+    const impersonatorId = parseObjectIdFilter(impersonator, 'impersonator');
+    if (impersonatorId) query.impersonator = impersonatorId;
+    const targetId = parseObjectIdFilter(userId, 'user ID');
+    if (targetId) query.userId = targetId;
+    if (sid) query.sid = String(sid);
+    if (action && action !== 'all') {
+      if (!IMPERSONATION_ACTIONS.includes(String(action))) {
+        return next(
+          new AppError(`Action must be one of: ${IMPERSONATION_ACTIONS.join(', ')}`, 400)
+        );
+      }
+      query.action = String(action);
+    }
+    if (blocked === 'true' || blocked === 'false') query.blocked = blocked === 'true';
+
+    const createdAt = parseDateRange(from, to);
+    if (createdAt) query.createdAt = createdAt;
+
+    const [logs, total] = await Promise.all([
+      ImpersonationLogModel.find(query)
+        .populate('impersonator', 'name email')
+        .populate('userId', 'name email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      ImpersonationLogModel.countDocuments(query)
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        logs,
+        pagination: {
+          total,
+          totalPages: Math.ceil(total / limit),
+          currentPage: page,
+          limit
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
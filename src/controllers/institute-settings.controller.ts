@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import { IInstituteSettings } from '../models/institute-settings.model';
+import { catchAsync } from '../utils/catchAsync';
+import {
+  getInstituteSettings,
+  institutionalEmailFor,
+  renderFixedTokens,
+  validateEnrollmentPattern
+} from '../utils/enrollment';
+
+const EDITABLE_FIELDS = ['name', 'code', 'emailDomain', 'enrollmentPattern'] as const;
+
+// What a student admitted this year to branch 06 would be issued, without advancing any counter
+const buildExample = (settings: IInstituteSettings) => {
+  const enrollmentNo = renderFixedTokens(settings.enrollmentPattern, settings, {
+    admissionYear: new Date().getFullYear(),
+    branchCode: '06'
+  }).replace(/\{SEQ:(\d+)\}/, (_token, width) => '1'.padStart(parseInt(width), '0'));
+
+  return {
+    enrollmentNo,
+    institutionalEmail: institutionalEmailFor(enrollmentNo, settings)
+  };
+};
+
+export const getSettings = catchAsync(async (_req: Request, res: Response) => {
+  const settings = await getInstituteSettings();
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      settings,
+      example: buildExample(settings)
+    }
+  });
+});
+
+export const updateSettings = catchAsync(async (req: Request, res: Response) => {
+  if (req.body.enrollmentPattern !== undefined) {
+    validateEnrollmentPattern(req.body.enrollmentPattern);
+  }
+
+  const settings = await getInstituteSettings();
+  for (const field of EDITABLE_FIELDS) {
+    if (req.body[field] !== undefined) settings.set(field, req.body[field]);
+  }
+  settings.updatedBy = req.user!._id;
+  await settings.save();
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      settings,
+      example: buildExample(settings)
+    }
+  });
+});
@@ -0,0 +1,181 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { InvitationModel, IInvitation } from '../models/invitation.model';
+import { UserModel } from '../models/user.model';
+import { DepartmentModel } from '../models/department.model';
+import { AppError } from '../middleware/error.middleware';
+import { hashToken } from '../utils/token.utils';
+import { queueEmail } from '../utils/mailer';
+import { findUnknownRoles, grants, resolvePermissions } from '../utils/permissions';
+
+// Give the invitation a fresh token and expiry, returning the raw token for the email link
+const issueInvitationToken = (invitation: IInvitation): string => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresInDays = parseInt(process.env.INVITATION_EXPIRES_DAYS || '') || 7;
+
+  invitation.tokenHash = hashToken(token);
+  invitation.expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+  return token;
+};
+
+// Inviting someone can't hand out more than the inviter holds, the same rule as API keys
+const findRolesBeyondInviter = async (req: Request, roles: string[]): Promise<string[]> => {
+  const held = req.role ? await resolvePermissions(req.role) : [];
+  const beyond: string[] = [];
+  for (const role of roles) {
+    const permissions = await resolvePermissions(role);
+    if (!permissions.every((permission) => grants(held, permission))) {
+      beyond.push(role);
+    }
+  }
+  return beyond;
+};
+
+const sendInvitationEmail = async (invitation: IInvitation, token: string): Promise<void> => {
+  const clientUrl = process.env.CLIENT_URL || 'http://localhost:3000';
+  const acceptURL = `${clientUrl}/accept-invitation/${token}`;
+
+  await queueEmail(
+    {
+      to: invitation.email,
+      subject: 'You have been invited to the GPP Portal',
+      text:
+        `Hello${invitation.name ? ` ${invitation.name}` : ''},\n\n` +
+        `You have been invited to join the GPP Portal as ${invitation.roles.join(', ')}.\n` +
+        `Set up your account using the link below before ${invitation.expiresAt.toDateString()}.\n\n` +
+        acceptURL
+    },
+    'invitation'
+  );
+};
+
+export const createInvitation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, name, roles, department } = req.body;
+
+    if (!email || !department || !Array.isArray(roles) || roles.length === 0) {
+      return next(new AppError('Please provide email, department and at least one role', 400));
+    }
+
+    const normalizedEmail = String(email).toLowerCase().trim();
+
+    // Existing accounts get roles through role assignment, not a second account
+    const existingUser = await UserModel.findOne({ email: normalizedEmail });
+    if (existingUser) {
+      return next(new AppError(`A user with email ${normalizedEmail} already exists`, 400));
+    }
+
+    const unknownRoles = await findUnknownRoles(roles);
+    if (unknownRoles.length > 0) {
+      return next(new AppError(`Unknown roles: ${unknownRoles.join(', ')}`, 400));
+    }
+
+    const rolesBeyondInviter = await findRolesBeyondInviter(req, roles);
+    if (rolesBeyondInviter.length > 0) {
+      return next(
+        new AppError(
+          'You cannot invite someone with more permissions than you hold: ' +
+            rolesBeyondInviter.join(', '),
+          403
+        )
+      );
+    }
+
+    const departmentExists = await DepartmentModel.exists({ _id: department });
+    if (!departmentExists) {
+      return next(new AppError('Department not found', 404));
+    }
+
+    // Only one open invitation per email
+    await InvitationModel.updateMany(
+      { email: normalizedEmail, status: 'pending' },
+      { $set: { status: 'revoked' } }
+    );
+
+    const invitation = new InvitationModel({
+      email: normalizedEmail,
+      name,
+      roles,
+      department,
+      invitedBy: req.user!._id
+    });
+    const token = issueInvitationToken(invitation);
+    await invitation.save();
+    await sendInvitationEmail(invitation, token);
+
+    res.status(201).json({
+      status: 'success',
+      data: { invitation }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAllInvitations = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query: Record<string, unknown> = {};
+    if (req.query.status && req.query.status !== 'all') {
+      query.status = req.query.status;
+    }
+
+    const invitations = await InvitationModel.find(query)
+      .populate('department', 'name')
+      .populate('invitedBy', 'name email')
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      status: 'success',
+      data: { invitations }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resendInvitation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invitation = await InvitationModel.findById(req.params.id);
+
+    if (!invitation) {
+      return next(new AppError('Invitation not found', 404));
+    }
+
+    if (invitation.status !== 'pending') {
+      return next(new AppError(`Invitation has already been ${invitation.status}`, 400));
+    }
+
+    // Resending replaces the old link and restarts the expiry clock
+    const token = issueInvitationToken(invitation);
+    await invitation.save();
+    await sendInvitationEmail(invitation, token);
+
+    res.status(200).json({
+      status: 'success',
+      data: { invitation }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeInvitation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invitation = await InvitationModel.findOneAndUpdate(
+      { _id: req.params.id, status: 'pending' },
+      { status: 'revoked' },
+      { new: true }
+    );
+
+    if (!invitation) {
+      return next(new AppError('No pending invitation found with that ID', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: { invitation }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
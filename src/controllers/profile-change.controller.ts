@@ -0,0 +1,293 @@
+import { Request, Response } from 'express';
+import { StudentModel } from '../models/student.model';
+import {
+  IProfileChangeRequest,
+  ProfileChangeRequestModel
+} from '../models/profile-change-request.model';
+import { AppError } from '../middleware/error.middleware';
+import { assertDepartmentScope } from '../middleware/auth.middleware';
+import { catchAsync } from '../utils/catchAsync';
+import {
+  EDITABLE_PROFILE_FIELDS,
+  getMissingProfileFields,
+  getProfileValue
+} from '../utils/student-profile';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const findOwnStudent = async (req: Request) => {
+  const student = await StudentModel.findOne({ userId: req.user!._id });
+  if (!student) {
+    throw new AppError('No student record is linked to your account', 404);
+  }
+  return student;
+};
+
+// Student Self-Service
+export const getMyProfile = catchAsync(async (req: Request, res: Response) => {
+  const student = await findOwnStudent(req);
+  await student.populate('departmentId', 'name');
+
+  const pendingRequest = await ProfileChangeRequestModel.findOne({
+    student: student._id,
+    status: 'pending'
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      student,
+      missingFields: getMissingProfileFields(student),
+      editableFields: EDITABLE_PROFILE_FIELDS,
+      pendingRequest
+    }
+  });
+});
+
+export const submitProfileChange = catchAsync(async (req: Request, res: Response) => {
+  const proposed = req.body.changes;
+  if (!proposed || typeof proposed !== 'object') {
+    throw new AppError('Please provide the changes to your profile', 400);
+  }
+
+  const student = await findOwnStudent(req);
+
+  if (await ProfileChangeRequestModel.exists({ student: student._id, status: 'pending' })) {
+    throw new AppError('You already have a profile change waiting for approval', 409);
+  }
+
+  // Only editable fields that actually differ from the current record make it into the request
+  const current = student.toObject();
+  const changes: Record<string, unknown> = {};
+  const previous: Record<string, unknown> = {};
+
+  for (const path of EDITABLE_PROFILE_FIELDS) {
+    let value = getProfileValue(proposed, path);
+    if (value === undefined) continue;
+
+    if (path === 'educationBackground') {
+      if (!Array.isArray(value)) {
+        throw new AppError('Education background must be a list', 400);
+      }
+    } else {
+      if (typeof value !== 'string') {
+        throw new AppError(`${path} must be text`, 400);
+      }
+      value = value.trim();
+    }
+
+    const existing = getProfileValue(current, path);
+    if (JSON.stringify(value) === JSON.stringify(existing ?? '')) continue;
+
+    changes[path] = value;
+    previous[path] = existing;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw new AppError('Your changes match your current profile', 400);
+  }
+
+  const email = changes.personalEmail as string | undefined;
+  if (email && !EMAIL_PATTERN.test(email)) {
+    throw new AppError('Please provide a valid personal email address', 400);
+  }
+
+  // Run the student schema's own validators now rather than at approval time
+  const draft = StudentModel.hydrate(current);
+  for (const [path, value] of Object.entries(changes)) {
+    draft.set(path, value);
+  }
+  const validationError = draft.validateSync(Object.keys(changes));
+  if (validationError) {
+    const messages = Object.values(validationError.errors).map((error) => error.message);
+    throw new AppError(messages.join(', '), 400);
+  }
+
+  const request = await ProfileChangeRequestModel.create({
+    student: student._id,
+    department: student.departmentId,
+    requestedBy: req.user!._id,
+    changes,
+    previous
+  });
+
+  res.status(201).json({
+    status: 'success',
+    data: { request }
+  });
+});
+
+export const getMyProfileChanges = catchAsync(async (req: Request, res: Response) => {
+  const student = await findOwnStudent(req);
+  const requests = await ProfileChangeRequestModel.find({ student: student._id })
+    .populate('reviewedBy', 'name')
+    .sort({ createdAt: -1 });
+
+  res.status(200).json({
+    status: 'success',
+    data: { requests }
+  });
+});
+
+export const cancelProfileChange = catchAsync(async (req: Request, res: Response) => {
+  const student = await findOwnStudent(req);
+  const request = await ProfileChangeRequestModel.findOneAndUpdate(
+    { _id: req.params.requestId, student: student._id, status: 'pending' },
+    { status: 'cancelled' },
+    { new: true }
+  );
+
+  if (!request) {
+    throw new AppError('No pending profile change found with that ID', 404);
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: { request }
+  });
+});
+
+// Staff Review
+export const getProfileChangeRequests = catchAsync(async (req: Request, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 100;
+  const skip = (page - 1) * limit;
+  const status = (req.query.status as string) || 'pending';
+  const department = req.query.department as string;
+
+  // Build query
+  const query: any = {};
+  if (status !== 'all') query.status = status;
+  if (req.query.student) query.student = req.query.student;
+  if (department && department !== 'all') query.department = department;
+  if (req.departmentScope) query.department = req.departmentScope;
+
+  const [requests, total] = await Promise.all([
+    ProfileChangeRequestModel.find(query)
+      .populate('student', 'enrollmentNo fullName batch semester')
+      .populate('requestedBy', 'name email')
+      .populate('reviewedBy', 'name')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit),
+    ProfileChangeRequestModel.countDocuments(query)
+  ]);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      requests,
+      pagination: {
+        total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: page,
+        limit
+      }
+    }
+  });
+});
+
+const findPendingRequest = async (req: Request) => {
+  const request = await ProfileChangeRequestModel.findOne({
+    _id: req.params.requestId,
+    status: 'pending'
+  });
+  if (!request) {
+    throw new AppError('No pending profile change found with that ID', 404);
+  }
+  assertDepartmentScope(req, request.department);
+  return request;
+};
+
+// Moves a pending request on; only one reviewer can win, so a parallel decision gets a 409
+const claimPendingRequest = async (
+  request: IProfileChangeRequest,
+  update: Record<string, unknown>
+) => {
+  const claimed = await ProfileChangeRequestModel.findOneAndUpdate(
+    { _id: request._id, status: 'pending' },
+    { $set: update },
+    { new: true }
+  );
+  if (!claimed) {
+    throw new AppError('This request was updated by someone else. Please reload it', 409);
+  }
+  return claimed;
+};
+
+// Merge the requested values into the student record and recompute profile completeness
+export const approveProfileChange = catchAsync(async (req: Request, res: Response) => {
+  const request = await findPendingRequest(req);
+
+  const student = await StudentModel.findById(request.student);
+  if (!student) {
+    throw new AppError('The student for this request no longer exists', 404);
+  }
+
+  // Staff may have edited the same fields since the student asked; don't silently undo that
+  const current = student.toObject();
+  const changedSince = Object.keys(request.changes).filter(
+    (path) =>
+      JSON.stringify(getProfileValue(current, path) ?? '') !==
+      JSON.stringify(request.previous?.[path] ?? '')
+  );
+  if (changedSince.length > 0) {
+    throw new AppError(
+      `These fields changed after the request was made: ${changedSince.join(', ')}. ` +
+        'Reject it and ask the student to submit again',
+      409
+    );
+  }
+
+  for (const [path, value] of Object.entries(request.changes)) {
+    student.set(path, value);
+  }
+  await student.validate();
+
+  const claimed = await claimPendingRequest(request, {
+    status: 'approved',
+    reviewedBy: req.user!._id,
+    reviewedAt: new Date(),
+    reason: req.body.reason
+  });
+
+  try {
+    await student.save();
+  } catch (error) {
+    // Leave the request to be reviewed again rather than approved without its changes
+    await ProfileChangeRequestModel.updateOne(
+      { _id: request._id },
+      { $set: { status: 'pending' }, $unset: { reviewedBy: 1, reviewedAt: 1, reason: 1 } }
+    );
+    throw error;
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      request: claimed,
+      student,
+      missingFields: getMissingProfileFields(student)
+    }
+  });
+});
+
+export const rejectProfileChange = catchAsync(async (req: Request, res: Response) => {
+  const { reason } = req.body;
+  if (!reason || !String(reason).trim()) {
+    throw new AppError('Please provide a reason for rejecting the change', 400);
+  }
+
+  const pending = await findPendingRequest(req);
+  const request = await claimPendingRequest(pending, {
+    status: 'rejected',
+    reviewedBy: req.user!._id,
+    reviewedAt: new Date(),
+    reason: String(reason).trim()
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: { request }
+  });
+});
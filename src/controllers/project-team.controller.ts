@@ -6,10 +6,13 @@ import { UserModel } from '../models/user.model';
 import { StudentModel } from '../models/student.model';
 import { catchAsync } from '../utils/async.utils';
 import { AppError } from '../middleware/error.middleware';
+import { assertDepartmentScope } from '../middleware/auth.middleware';
 import { Parser } from 'json2csv';
 import { Readable } from 'stream';
 import csv from 'csv-parser';
 import mongoose from 'mongoose';
+import { generateTemporaryPassword } from '../utils/password-policy';
+import { sendAccountSetupEmail } from '../utils/account-setup';
 
 // Get all project teams
 export const getAllTeams = catchAsync(async (req: Request, res: Response) => {
@@ -20,6 +23,7 @@ export const getAllTeams = catchAsync(async (req: Request, res: Response) => {
   
   if (department) query.department = department;
   if (eventId) query.eventId = eventId;
+  if (req.departmentScope) query.department = req.departmentScope;
 
   // Pagination
   const page = parseInt(req.query.page as string) || 1;
@@ -68,6 +72,7 @@ export const getTeam = catchAsync(async (req: Request, res: Response) => {
   if (!team) {
     throw new AppError('Team not found', 404);
   }
+  assertDepartmentScope(req, team.department);
 
   res.status(200).json({
     status: 'success',
@@ -171,6 +176,7 @@ export const updateTeam = catchAsync(async (req: Request, res: Response) => {
   if (!team) {
     throw new AppError('Team not found', 404);
   }
+  assertDepartmentScope(req, team.department);
 
   // Check if user has permission to update
   const isAdmin = req.user.roles.includes('admin');
@@ -265,6 +271,7 @@ export const deleteTeam = catchAsync(async (req: Request, res: Response) => {
 // Get teams for a specific department
 export const getTeamsByDepartment = catchAsync(async (req: Request, res: Response) => {
   const departmentId = req.params.departmentId;
+  assertDepartmentScope(req, departmentId);
   
   // Check if department exists
   const departmentExists = await DepartmentModel.findById(departmentId);
@@ -294,7 +301,9 @@ export const getTeamsByEvent = catchAsync(async (req: Request, res: Response) =>
   const eventId = req.params.eventId;
   
   // Query teams by event
-  const teams = await ProjectTeamModel.find({ eventId })
+  const query: any = { eventId };
+  if (req.departmentScope) query.department = req.departmentScope;
+  const teams = await ProjectTeamModel.find(query)
     .populate([
       { path: 'department', select: 'name code' },
       { path: 'eventId', select: 'name eventDate' },
@@ -340,6 +349,7 @@ export const exportTeamsToCsv = catchAsync(async (req: Request, res: Response) =
   
   if (req.query.department) query.department = req.query.department;
   if (req.query.eventId) query.eventId = req.query.eventId;
+  if (req.departmentScope) query.department = req.departmentScope;
 
   // Find all teams matching the query with populated fields
   const teams = await ProjectTeamModel.find(query)
@@ -481,11 +491,13 @@ export const importTeamsFromCsv = catchAsync(async (req: Request, res: Response)
             user = await UserModel.create({
               name: memberName,
               email: memberEmail,
-              password: 'password123', // This should be a secure random password in production
+              password: generateTemporaryPassword(),
+              passwordChangeRequired: true,
               roles: ['student'],
               selectedRole: 'student',
               department: department._id
             });
+            await sendAccountSetupEmail(user);
           }
           
           members.push({
@@ -625,6 +637,7 @@ export const getTeamMembers = catchAsync(async (req: Request, res: Response) =>
   if (!team) {
     throw new AppError('Team not found', 404);
   }
+  assertDepartmentScope(req, team.department);
 
   // Get detailed user information for each member
   const memberDetails = await Promise.all(
@@ -664,6 +677,7 @@ export const addTeamMember = catchAsync(async (req: Request, res: Response) => {
   if (!team) {
     throw new AppError('Team not found', 404);
   }
+  assertDepartmentScope(req, team.department);
 
   // Check if user has permission to update
   const isAdmin = req.user.roles.includes('admin');
@@ -731,6 +745,7 @@ export const removeTeamMember = catchAsync(async (req: Request, res: Response) =
   if (!team) {
     throw new AppError('Team not found', 404);
   }
+  assertDepartmentScope(req, team.department);
 
   // Check if user has permission to update
   const isAdmin = req.user.roles.includes('admin');
@@ -783,6 +798,7 @@ export const setTeamLeader = catchAsync(async (req: Request, res: Response) => {
   if (!team) {
     throw new AppError('Team not found', 404);
   }
+  assertDepartmentScope(req, team.department);
 
   // Check if user has permission to update
   const isAdmin = req.user.roles.includes('admin');
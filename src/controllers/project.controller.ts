@@ -7,6 +7,7 @@ import { DepartmentModel } from '../models/department.model';
 import { UserModel } from '../models/user.model';
 import { catchAsync } from '../utils/async.utils';
 import { AppError } from '../middleware/error.middleware';
+import { assertDepartmentScope } from '../middleware/auth.middleware';
 import { Parser } from 'json2csv';
 import { Readable } from 'stream';
 import csv from 'csv-parser';
@@ -30,6 +31,7 @@ export const getAllProjects = catchAsync(async (req: Request, res: Response) =>
   if (status) query.status = status;
   if (eventId) query.eventId = eventId;
   if (category) query.category = category;
+  if (req.departmentScope) query.department = req.departmentScope;
   
   // Handle evaluation status filters
   if (deptEvaluationStatus === 'completed') {
@@ -99,6 +101,7 @@ export const getProject = catchAsync(async (req: Request, res: Response) => {
   if (!project) {
     throw new AppError('Project not found', 404);
   }
+  assertDepartmentScope(req, project.department);
 
   res.status(200).json({
     status: 'success',
@@ -206,6 +209,7 @@ export const updateProject = catchAsync(async (req: Request, res: Response) => {
   if (!project) {
     throw new AppError('Project not found', 404);
   }
+  assertDepartmentScope(req, project.department);
 
   // Check if user has permission to update
   const isAdmin = req.user.roles.includes('admin');
@@ -403,6 +407,7 @@ export const evaluateProjectByCentral = catchAsync(async (req: Request, res: Res
 // Get projects for a specific department
 export const getProjectsByDepartment = catchAsync(async (req: Request, res: Response) => {
   const departmentId = req.params.departmentId;
+  assertDepartmentScope(req, departmentId);
   
   // Check if department exists
   const departmentExists = await DepartmentModel.findById(departmentId);
@@ -439,7 +444,9 @@ export const getProjectsByEvent = catchAsync(async (req: Request, res: Response)
   }
 
   // Query projects by event
-  const projects = await ProjectModel.find({ eventId })
+  const query: any = { eventId };
+  if (req.departmentScope) query.department = req.departmentScope;
+  const projects = await ProjectModel.find(query)
     .populate([
       { path: 'department', select: 'name code' },
       { path: 'teamId', select: 'name members' },
@@ -465,6 +472,7 @@ export const getProjectsByTeam = catchAsync(async (req: Request, res: Response)
   if (!teamExists) {
     throw new AppError('Team not found', 404);
   }
+  assertDepartmentScope(req, teamExists.department);
 
   // Query projects by team
   const projects = await ProjectModel.find({ teamId })
@@ -579,6 +587,7 @@ export const exportProjectsToCsv = catchAsync(async (req: Request, res: Response
   if (req.query.status) query.status = req.query.status;
   if (req.query.eventId) query.eventId = req.query.eventId;
   if (req.query.category) query.category = req.query.category;
+  if (req.departmentScope) query.department = req.departmentScope;
 
   // Find all projects matching the query with populated fields
   const projects = await ProjectModel.find(query)
@@ -791,6 +800,10 @@ export const getProjectStatistics = catchAsync(async (req: Request, res: Respons
   if (eventId) {
     matchQuery.eventId = new mongoose.Types.ObjectId(eventId);
   }
+  // Aggregations don't cast, so the scope has to be an ObjectId here
+  if (req.departmentScope) {
+    matchQuery.department = new mongoose.Types.ObjectId(req.departmentScope);
+  }
 
   // Get department-wise stats
   const departmentStats = await ProjectModel.aggregate([
@@ -1050,6 +1063,9 @@ export const getProjectCountsByCategory = catchAsync(async (req: Request, res: R
   if (eventId) {
     matchQuery.eventId = new mongoose.Types.ObjectId(eventId);
   }
+  if (req.departmentScope) {
+    matchQuery.department = new mongoose.Types.ObjectId(req.departmentScope);
+  }
 
   // Aggregate projects by category
   const categoryCounts = await ProjectModel.aggregate([
@@ -1099,6 +1115,7 @@ export const getProjectWithDetails = catchAsync(async (req: Request, res: Respon
   if (!project) {
     throw new AppError('Project not found', 404);
   }
+  assertDepartmentScope(req, project.department);
 
   // Get team details
   const team = await ProjectTeamModel.findById(project.teamId)
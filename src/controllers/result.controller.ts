@@ -1,11 +1,30 @@
 import { Request, Response } from 'express';
 import { ResultModel } from '../models/result.model';
+import { DepartmentModel } from '../models/department.model';
 import { catchAsync } from '../utils/catchAsync';
 import { AppError } from '../middleware/error.middleware';
 import csv from 'csv-parser';
 import { Parser } from 'json2csv';
 import { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
+import { reconcileSemesters } from '../utils/semester-reconciliation';
+import archiver from 'archiver';
+import { StudentModel } from '../models/student.model';
+import { hasPermission } from '../middleware/auth.middleware';
+import { buildTranscript, renderTranscriptHtml } from '../utils/transcript';
+import { renderPdf, withBrowser } from '../utils/pdf';
+
+// Results carry the GTU branch code rather than a department reference, so scope by
+// the department's code (e.g. '06' for branch 6)
+const applyDepartmentScope = async (req: Request, query: any): Promise<void> => {
+  if (!req.departmentScope) return;
+
+  const department = await DepartmentModel.findById(req.departmentScope);
+  if (!department) {
+    throw new AppError('Your department could not be found', 403);
+  }
+  query.branchCode = parseInt(department.code);
+};
 
 // Get all results with filtering options
 export const getAllResults = catchAsync(async (req: Request, res: Response) => {
@@ -25,6 +44,7 @@ export const getAllResults = catchAsync(async (req: Request, res: Response) => {
   if (academicYear) query.academicYear = academicYear;
   if (examid) query.examid = Number(examid);
   if (uploadBatch) query.uploadBatch = uploadBatch;
+  await applyDepartmentScope(req, query);
 
   // Pagination
   const page = parseInt(req.query.page as string) || 1;
@@ -56,7 +76,9 @@ export const getAllResults = catchAsync(async (req: Request, res: Response) => {
 
 // Get result by ID
 export const getResult = catchAsync(async (req: Request, res: Response) => {
-  const result = await ResultModel.findById(req.params.id);
+  const query: any = { _id: req.params.id };
+  await applyDepartmentScope(req, query);
+  const result = await ResultModel.findOne(query);
   
   if (!result) {
     throw new AppError('Result not found', 404);
@@ -70,11 +92,25 @@ export const getResult = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+// Students may read their own results without results:read
+const assertCanReadStudentResults = async (req: Request, enrollmentNo: string): Promise<void> => {
+  if (!(await hasPermission(req, 'results:read'))) {
+    const ownRecord = await StudentModel.exists({ enrollmentNo, userId: req.user?._id });
+    if (!ownRecord) {
+      throw new AppError('You do not have permission to perform this action', 403);
+    }
+  }
+};
+
 // Get results by student enrollment number
 export const getStudentResults = catchAsync(async (req: Request, res: Response) => {
   const { enrollmentNo } = req.params;
+  await assertCanReadStudentResults(req, enrollmentNo);
+
+  const query: any = { enrollmentNo };
+  await applyDepartmentScope(req, query);
   
-  const results = await ResultModel.find({ enrollmentNo })
+  const results = await ResultModel.find(query)
     .sort({ semester: 1, examid: 1 });
   
   res.status(200).json({
@@ -85,6 +121,95 @@ export const getStudentResults = catchAsync(async (req: Request, res: Response)
   });
 });
 
+// Consolidated transcript PDF; students may download their own without results:read
+export const downloadTranscript = catchAsync(async (req: Request, res: Response) => {
+  const { enrollmentNo } = req.params;
+  await assertCanReadStudentResults(req, enrollmentNo);
+
+  const query: any = { enrollmentNo };
+  await applyDepartmentScope(req, query);
+  if (!(await ResultModel.exists(query))) {
+    throw new AppError('No results found for this student', 404);
+  }
+
+  const transcript = await buildTranscript(enrollmentNo);
+  const pdf = await withBrowser((browser) => renderPdf(browser, renderTranscriptHtml(transcript!)));
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename=transcript-${enrollmentNo}.pdf`);
+  res.status(200).send(pdf);
+});
+
+// Every transcript of a batch (e.g. 2022-2025) in one ZIP, one PDF per student
+export const downloadBatchTranscripts = catchAsync(async (req: Request, res: Response) => {
+  const batch = req.query.batch as string;
+  const department = req.query.department as string;
+
+  if (!batch) {
+    throw new AppError('Please provide a batch', 400);
+  }
+
+  // Build query
+  const query: any = { batch, enrollmentNo: { $exists: true } };
+  if (department && department !== 'all') query.departmentId = department;
+  if (req.departmentScope) query.departmentId = req.departmentScope;
+
+  const maxStudents = parseInt(process.env.TRANSCRIPT_BULK_LIMIT || '') || 500;
+  const students = await StudentModel.find(query)
+    .select('enrollmentNo')
+    .sort({ enrollmentNo: 1 })
+    .limit(maxStudents + 1)
+    .lean();
+
+  if (students.length === 0) {
+    throw new AppError('No students found for this batch', 404);
+  }
+  if (students.length > maxStudents) {
+    throw new AppError(
+      `This batch has more than ${maxStudents} students. Please filter by department`,
+      400
+    );
+  }
+
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename=transcripts-${batch}.zip`);
+
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  archive.on('error', (error) => {
+    console.error('Error building transcript archive:', error);
+    res.destroy(error);
+  });
+  archive.pipe(res);
+
+  // Students without results are listed instead of getting an empty transcript
+  const skipped: string[] = [];
+  try {
+    await withBrowser(async (browser) => {
+      for (const student of students) {
+        const enrollmentNo = student.enrollmentNo as string;
+        const transcript = await buildTranscript(enrollmentNo);
+        if (!transcript) {
+          skipped.push(enrollmentNo);
+          continue;
+        }
+        const pdf = await renderPdf(browser, renderTranscriptHtml(transcript));
+        archive.append(pdf, { name: `transcript-${enrollmentNo}.pdf` });
+      }
+    });
+
+    if (skipped.length > 0) {
+      archive.append(`No results found for:\n${skipped.join('\n')}\n`, { name: 'skipped.txt' });
+    }
+    await archive.finalize();
+  } catch (error) {
+    // Part of the zip has already been streamed, so the error handler can't send a response;
+    // cut the download off instead of leaving a truncated archive that looks complete
+    console.error('Error rendering batch transcripts:', error);
+    archive.abort();
+    res.destroy(error as Error);
+  }
+});
+
 // Get recent upload batches
 export const getUploadBatches = catchAsync(async (_req: Request, res: Response) => {
   const batches = await ResultModel.aggregate([
@@ -240,6 +365,11 @@ const processGtuResultCsv = (rows: any[]) => {
   });
 };
 
+const reconcileImportedStudents = async (imported: { enrollmentNo: string }[]) => {
+  const enrollmentNos = Array.from(new Set(imported.map((result) => result.enrollmentNo)));
+  return reconcileSemesters({ enrollmentNo: { $in: enrollmentNos } });
+};
+
 // Import results from CSV
 export const importResults = catchAsync(async (req: Request, res: Response): Promise<any> => {
   if (!req.file) {
@@ -332,12 +462,16 @@ export const importResults = catchAsync(async (req: Request, res: Response): Pro
         ordered: false // Continue inserting even if some fail
       });
 
+      // Bring the affected students' semester statuses in line with their new results
+      const reconciliation = await reconcileImportedStudents(resultsWithBatch);
+
       res.status(201).json({
         status: 'success',
         data: {
           batchId,
           importedCount: savedResults.length,
-          totalRows: results.length
+          totalRows: results.length,
+          reconciliation
         }
       });
       return;
@@ -365,6 +499,8 @@ export const importResults = catchAsync(async (req: Request, res: Response): Pro
       // Check if this is actually a duplicate key error
       if (error.code === 11000) {
         const insertedCount = error.result?.nInserted || 0;
+        const reconciliation =
+          insertedCount > 0 ? await reconcileImportedStudents(resultsWithBatch) : undefined;
         
         res.status(200).json({
           status: 'partial',
@@ -372,6 +508,7 @@ export const importResults = catchAsync(async (req: Request, res: Response): Pro
             batchId: insertedCount > 0 ? batchId : null,
             importedCount: insertedCount,
             totalRows: results.length,
+            reconciliation,
             error: `Some or all results were not imported due to duplicates.${duplicateInfo}`
           }
         });
@@ -409,6 +546,7 @@ export const exportResults = catchAsync(async (req: Request, res: Response) => {
   if (academicYear) query.academicYear = academicYear;
   if (examid) query.examid = Number(examid);
   if (uploadBatch) query.uploadBatch = uploadBatch;
+  await applyDepartmentScope(req, query);
 
   // Get results from database
   const results = await ResultModel.find(query);
@@ -471,6 +609,7 @@ export const getBranchAnalysis = catchAsync(async (req: Request, res: Response)
   const query: any = {};
   if (academicYear) query.academicYear = academicYear;
   if (examid) query.examid = Number(examid);
+  await applyDepartmentScope(req, query);
   
   const analysis = await ResultModel.aggregate([
     { $match: query },
@@ -4,6 +4,7 @@ import { AppError } from '../middleware/error.middleware';
 import csv from 'csv-parser';
 import { Readable } from 'stream';
 import { createObjectCsvWriter } from 'csv-writer';
+import { BUILT_IN_ROLES, PERMISSIONS, clearPermissionCache, isValidPermission } from '../utils/permissions';
 
 // Get all roles
 export const getAllRoles = async (_req: Request, res: Response, next: NextFunction) => {
@@ -45,6 +46,7 @@ export const getRole = async (req: Request, res: Response, next: NextFunction) =
 export const createRole = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const role = await RoleModel.create(req.body);
+    clearPermissionCache();
 
     res.status(201).json({
       status: 'success',
@@ -64,6 +66,7 @@ export const updateRole = async (req: Request, res: Response, next: NextFunction
       new: true,
       runValidators: true
     });
+    clearPermissionCache();
 
     if (!role) {
       return next(new AppError('Role not found', 404));
@@ -84,6 +87,7 @@ export const updateRole = async (req: Request, res: Response, next: NextFunction
 export const deleteRole = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const role = await RoleModel.findByIdAndDelete(req.params.id);
+    clearPermissionCache();
 
     if (!role) {
       return next(new AppError('Role not found', 404));
@@ -150,14 +154,7 @@ export const importRoles = async (req: Request, res: Response, next: NextFunctio
           if (data.permissions) {
             const permissionsList = data.permissions.split(',').map((p: string) => p.trim());
             // Filter valid permissions
-            role.permissions = permissionsList.filter((p: string) => 
-              ['create', 'read', 'update', 'delete'].includes(p)
-            );
-          }
-
-          // Ensure at least 'read' permission
-          if (role.permissions.length === 0) {
-            role.permissions = ['read'];
+            role.permissions = permissionsList.filter((p: string) => isValidPermission(p));
           }
 
           console.log('Processed role:', role); // Debug log
@@ -199,6 +196,8 @@ export const importRoles = async (req: Request, res: Response, next: NextFunctio
       })
     );
 
+    clearPermissionCache();
+
     const successful = results.filter(r => r.status === 'success');
     const failed = results.filter(r => r.status === 'error');
 
@@ -241,3 +240,14 @@ export const exportRoles = async (_req: Request, res: Response, next: NextFuncti
     next(error);
   }
 };
+
+// List every permission the API checks, with the defaults for built-in roles
+export const getPermissions = async (_req: Request, res: Response) => {
+  res.status(200).json({
+    status: 'success',
+    data: {
+      permissions: PERMISSIONS,
+      builtInRoles: BUILT_IN_ROLES
+    }
+  });
+};
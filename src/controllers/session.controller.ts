@@ -0,0 +1,153 @@
+import { Request, Response, NextFunction } from 'express';
+import { SessionModel } from '../models/session.model';
+import { UserModel } from '../models/user.model';
+import { AppError } from '../middleware/error.middleware';
+import { endSession, endUserSessions } from '../utils/token.utils';
+
+const SESSION_FIELDS =
+  'sid selectedRole device userAgent ip lastIp lastSeenAt expiresAt impersonatedBy createdAt';
+
+const findActiveSessions = (userId: string) =>
+  SessionModel.find({
+    userId,
+    endedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  })
+    .select(SESSION_FIELDS)
+    .sort({ lastSeenAt: -1 });
+
+export const getMySessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const sessions = await findActiveSessions(req.user!._id.toString());
+
+    res.status(200).json({
+      status: 'success',
+      results: sessions.length,
+      data: {
+        sessions: sessions.map((session) => ({
+          ...session.toObject(),
+          current: session.sid === req.sessionId
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeMySession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const session = await SessionModel.findOne({
+      _id: req.params.id,
+      userId: req.user!._id,
+      endedAt: { $exists: false }
+    });
+
+    if (!session) {
+      return next(new AppError('Session not found', 404));
+    }
+
+    await endSession(session.sid, 'revoked', req.user!._id.toString());
+
+    res.status(204).json({
+      status: 'success',
+      data: null
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Logout everywhere; the current session survives unless includeCurrent=true is passed
+export const revokeAllMySessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const includeCurrent = req.query.includeCurrent === 'true';
+    const ended = await endUserSessions(
+      req.user!._id.toString(),
+      'revoked',
+      includeCurrent ? undefined : req.sessionId,
+      req.user!._id.toString()
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: `${ended} session(s) logged out`
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getUserSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await UserModel.findById(req.params.id);
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const sessions = await findActiveSessions(user._id.toString());
+
+    res.status(200).json({
+      status: 'success',
+      results: sessions.length,
+      data: { sessions }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Admin force logout: a single session when :sessionId is given, otherwise all of them
+export const forceLogoutUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await UserModel.findById(req.params.id);
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const adminId = req.user!._id.toString();
+    let ended = 0;
+
+    if (req.params.sessionId) {
+      const session = await SessionModel.findOne({
+        _id: req.params.sessionId,
+        userId: user._id,
+        endedAt: { $exists: false }
+      });
+      if (!session) {
+        return next(new AppError('Session not found', 404));
+      }
+      await endSession(session.sid, 'forced-logout', adminId);
+      ended = 1;
+    } else {
+      ended = await endUserSessions(user._id.toString(), 'forced-logout', undefined, adminId);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: `${ended} session(s) logged out`
+    });
+  } catch (error) {
+    next(error);
+  }
+};
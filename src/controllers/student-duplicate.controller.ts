@@ -0,0 +1,86 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { StudentModel } from '../models/student.model';
+import { AppError } from '../middleware/error.middleware';
+import { assertDepartmentScope } from '../middleware/auth.middleware';
+import { catchAsync } from '../utils/catchAsync';
+import {
+  DEFAULT_MIN_DUPLICATE_SCORE,
+  findDuplicateStudents,
+  findDuplicateUserAccounts,
+  mergeStudents
+} from '../utils/student-duplicates';
+
+// Likely duplicate students, highest score first, plus accounts whose emails differ only in case
+export const getDuplicateStudents = catchAsync(async (req: Request, res: Response) => {
+  const { departmentId, batch } = req.query;
+  const minScore = req.query.minScore
+    ? parseInt(req.query.minScore as string)
+    : DEFAULT_MIN_DUPLICATE_SCORE;
+  if (isNaN(minScore) || minScore < 0 || minScore > 100) {
+    throw new AppError('minScore must be between 0 and 100', 400);
+  }
+
+  // Build query
+  const query: any = {};
+  if (departmentId && departmentId !== 'all') {
+    if (!mongoose.Types.ObjectId.isValid(String(departmentId))) {
+      throw new AppError('Invalid department', 400);
+    }
+    query.departmentId = String(departmentId);
+  }
+  if (batch && batch !== 'all') query.batch = String(batch);
+  if (req.departmentScope) query.departmentId = req.departmentScope;
+
+  const [pairs, userAccounts] = await Promise.all([
+    findDuplicateStudents(query, minScore),
+    req.departmentScope ? Promise.resolve([]) : findDuplicateUserAccounts()
+  ]);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      minScore,
+      total: pairs.length,
+      pairs,
+      userAccounts
+    }
+  });
+});
+
+// Merge duplicateId into primaryId; dryRun=true reports what would change without writing
+export const mergeDuplicateStudents = catchAsync(async (req: Request, res: Response) => {
+  const { primaryId, duplicateId, dryRun } = req.body;
+  if (!primaryId || !duplicateId) {
+    throw new AppError('Please provide both primaryId and duplicateId', 400);
+  }
+  if (
+    !mongoose.Types.ObjectId.isValid(String(primaryId)) ||
+    !mongoose.Types.ObjectId.isValid(String(duplicateId))
+  ) {
+    throw new AppError('Invalid student ID', 400);
+  }
+
+  const students = await StudentModel.find({ _id: { $in: [primaryId, duplicateId] } })
+    .select('departmentId')
+    .lean();
+  for (const student of students) {
+    assertDepartmentScope(req, student.departmentId);
+  }
+
+  const report = await mergeStudents(
+    String(primaryId),
+    String(duplicateId),
+    req.user!._id.toString(),
+    { dryRun: dryRun === true || dryRun === 'true' }
+  );
+
+  const student = report.dryRun
+    ? undefined
+    : await StudentModel.findById(primaryId).populate('departmentId', 'name');
+
+  res.status(200).json({
+    status: 'success',
+    data: { report, student }
+  });
+});
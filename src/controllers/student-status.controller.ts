@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { StudentModel } from '../models/student.model';
+import { DepartmentModel } from '../models/department.model';
+import { StudentStatusChangeModel } from '../models/student-status-change.model';
+import { AppError } from '../middleware/error.middleware';
+import { assertDepartmentScope } from '../middleware/auth.middleware';
+import { catchAsync } from '../utils/catchAsync';
+import { STATUS_TRANSITIONS, changeStudentStatus } from '../utils/student-lifecycle';
+
+const findStudent = async (req: Request) => {
+  const student = await StudentModel.findById(req.params.id);
+  if (!student) {
+    throw new AppError('No student found with that ID', 404);
+  }
+  assertDepartmentScope(req, student.departmentId);
+  return student;
+};
+
+export const changeStatus = catchAsync(async (req: Request, res: Response) => {
+  const student = await findStudent(req);
+  const change = await changeStudentStatus(student, req.body, req.user!._id.toString());
+
+  const updatedStudent = await StudentModel.findById(student._id)
+    .populate('userId', 'name email')
+    .populate('departmentId', 'name');
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      student: updatedStudent,
+      change
+    }
+  });
+});
+
+export const getStatusHistory = catchAsync(async (req: Request, res: Response) => {
+  const student = await findStudent(req);
+  const history = await StudentStatusChangeModel.find({ student: student._id })
+    .populate('changedBy', 'name')
+    .sort({ createdAt: -1 });
+
+  const current = (student.status || 'active') as keyof typeof STATUS_TRANSITIONS;
+  res.status(200).json({
+    status: 'success',
+    data: {
+      current,
+      allowedTransitions: STATUS_TRANSITIONS[current],
+      history
+    }
+  });
+});
+
+// Transitions per department and status over a date range, alongside today's status counts
+export const getStatusSummary = catchAsync(async (req: Request, res: Response) => {
+  const { departmentId, from, to } = req.query;
+
+  const match: Record<string, any> = {};
+  const studentMatch: Record<string, any> = {};
+  const department = req.departmentScope || (departmentId !== 'all' && departmentId);
+  if (department) {
+    if (!mongoose.Types.ObjectId.isValid(String(department))) {
+      throw new AppError('Invalid department', 400);
+    }
+    match.department = new mongoose.Types.ObjectId(String(department));
+    studentMatch.departmentId = match.department;
+  }
+  if (from || to) {
+    const fromDate = from ? new Date(String(from)) : undefined;
+    const toDate = to ? new Date(String(to)) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      throw new AppError('Invalid date range', 400);
+    }
+    match.effectiveDate = {};
+    if (fromDate) match.effectiveDate.$gte = fromDate;
+    if (toDate) match.effectiveDate.$lte = toDate;
+  }
+
+  const [transitions, current] = await Promise.all([
+    StudentStatusChangeModel.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: { department: '$department', from: '$from', to: '$to' },
+          count: { $sum: 1 }
+        }
+      }
+    ]),
+    StudentModel.aggregate([
+      { $match: studentMatch },
+      {
+        $group: {
+          _id: { department: '$departmentId', status: { $ifNull: ['$status', 'active'] } },
+          count: { $sum: 1 }
+        }
+      }
+    ])
+  ]);
+
+  const departmentIds = [
+    ...new Set([...transitions, ...current].map((entry) => String(entry._id.department)))
+  ].filter((id) => mongoose.Types.ObjectId.isValid(id));
+  const departments = await DepartmentModel.find({ _id: { $in: departmentIds } })
+    .select('name')
+    .lean();
+  const names = new Map(departments.map((entry) => [String(entry._id), entry.name]));
+
+  const byDepartment = new Map<string, any>();
+  const entryFor = (id: unknown) => {
+    const key = String(id);
+    if (!byDepartment.has(key)) {
+      byDepartment.set(key, {
+        departmentId: id || null,
+        department: names.get(key) || 'Unassigned',
+        current: {},
+        transitions: []
+      });
+    }
+    return byDepartment.get(key);
+  };
+
+  for (const { _id, count } of current) {
+    entryFor(_id.department).current[_id.status] = count;
+  }
+  for (const { _id, count } of transitions) {
+    entryFor(_id.department).transitions.push({ from: _id.from, to: _id.to, count });
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      departments: [...byDepartment.values()].sort((a, b) =>
+        a.department.localeCompare(b.department)
+      )
+    }
+  });
+});
@@ -1,13 +1,32 @@
 import { Request, Response } from 'express';
 import { Parser } from 'json2csv';
+import crypto from 'crypto';
 import mongoose from 'mongoose';
 import { StudentModel } from '../models/student.model';
 import { UserModel } from '../models/user.model';
 import { DepartmentModel } from '../models/department.model';
+import { ImportPreviewModel } from '../models/import-preview.model';
 import { AppError } from '../middleware/error.middleware';
+import { assertDepartmentScope } from '../middleware/auth.middleware';
 import { catchAsync } from '../utils/catchAsync';
-import csv from 'csv-parser';
-import { Readable } from 'stream';
+import { reconcileSemesters } from '../utils/semester-reconciliation';
+import { hashToken } from '../utils/token.utils';
+import {
+  assignEnrollmentNo,
+  generateEnrollmentNo,
+  getInstituteSettings,
+  institutionalEmailFor
+} from '../utils/enrollment';
+import {
+  GTUImportEntry,
+  applyGTUImport,
+  getAdmissionYearFromEnrollment,
+  parseCsvRows,
+  planGTUImport,
+  previewGTUImport
+} from '../utils/gtu-student-import';
+
+const IMPORT_PREVIEW_TTL_MS = 30 * 60 * 1000;
 
 // Helper function to sync a single user
 export const syncStudentUser = async (user: any) => {
@@ -18,39 +37,32 @@ export const syncStudentUser = async (user: any) => {
 
   // Check if student record already exists
   const existingStudent = await StudentModel.findOne({ userId: user._id });
-  if (existingStudent) {
+  if (existingStudent && (existingStudent.enrollmentNo || !user.department)) {
     return existingStudent;
   }
 
-  // Get current year for enrollment number
   const currentYear = new Date().getFullYear();
-  
-  // Get the last enrollment number for this year
-  const lastStudent = await StudentModel.findOne(
-    { enrollmentNo: new RegExp(`^${currentYear}`) },
-    { enrollmentNo: 1 },
-    { sort: { enrollmentNo: -1 } }
-  );
-
-  // Generate next enrollment number
-  const counter = lastStudent?.enrollmentNo
-    ? parseInt(lastStudent.enrollmentNo.substring(4)) + 1
-    : 1;
-  const enrollmentNo = `${currentYear}${counter.toString().padStart(4, '0')}`;
+  const student =
+    existingStudent ||
+    new StudentModel({
+      userId: user._id,
+      departmentId: user.department,
+      admissionYear: currentYear,
+      batch: `${currentYear}-${currentYear + 3}`,
+      status: 'active'
+    });
+  if (!student.departmentId) student.departmentId = user.department;
 
-  // Generate institutional email
-  const institutionalEmail = `${enrollmentNo.toLowerCase()}@gppalanpur.in`;
+  // Without a department the record waits for one; the account itself must not fail here
+  if (student.departmentId) {
+    try {
+      await assignEnrollmentNo(student);
+    } catch (error) {
+      console.error(`Could not issue an enrollment number for user ${user._id}:`, error);
+    }
+  }
 
-  // Create new student record
-  return StudentModel.create({
-    userId: user._id,
-    departmentId: user.department,
-    enrollmentNo,
-    institutionalEmail,
-    admissionYear: currentYear,
-    batch: `${currentYear}-${currentYear + 3}`,
-    status: 'active'
-  });
+  return student.save();
 };
 
 // Sync all users with student role
@@ -80,6 +92,30 @@ export const syncStudentUsers = catchAsync(async (_req: Request, res: Response)
   });
 });
 
+// Recompute semester statuses from imported results; dryRun=true only reports the differences
+export const reconcileStudentSemesters = catchAsync(async (req: Request, res: Response) => {
+  const { enrollmentNos, departmentId, batch, dryRun } = req.body;
+
+  // Build query
+  const query: any = {};
+  if (Array.isArray(enrollmentNos) && enrollmentNos.length > 0) {
+    query.enrollmentNo = { $in: enrollmentNos };
+  }
+  if (departmentId) {
+    assertDepartmentScope(req, departmentId);
+    query.departmentId = departmentId;
+  }
+  if (batch) query.batch = batch;
+  if (req.departmentScope) query.departmentId = req.departmentScope;
+
+  const report = await reconcileSemesters(query, { dryRun: dryRun === true || dryRun === 'true' });
+
+  res.status(200).json({
+    status: 'success',
+    data: { report }
+  });
+});
+
 // Get all students
 export const getAllStudents = catchAsync(async (req: Request, res: Response) => {
   const page = parseInt(req.query.page as string) || 1;
@@ -99,8 +135,10 @@ export const getAllStudents = catchAsync(async (req: Request, res: Response) =>
   // Build query
   let query: any = {};
 
-  // Department filter
-  if (department && department !== 'all') {
+  // Department filter; department-scoped users only ever see their own department
+  if (req.departmentScope) {
+    query.departmentId = new mongoose.Types.ObjectId(req.departmentScope);
+  } else if (department && department !== 'all') {
     query.departmentId = new mongoose.Types.ObjectId(department);
   }
 
@@ -258,6 +296,7 @@ export const getStudent = catchAsync(async (req: Request, res: Response) => {
   if (!student) {
     throw new AppError('No student found with that ID', 404);
   }
+  assertDepartmentScope(req, student.departmentId);
 
   res.status(200).json({
     status: 'success',
@@ -267,7 +306,23 @@ export const getStudent = catchAsync(async (req: Request, res: Response) => {
 
 // Create student
 export const createStudent = catchAsync(async (req: Request, res: Response) => {
-  const { name, email, password, enrollmentNo, departmentId, semester, batch } = req.body;
+  const { name, email, password, departmentId, semester, batch } = req.body;
+  assertDepartmentScope(req, departmentId);
+
+  // Without an enrollment number one is issued from the institute's pattern
+  const settings = await getInstituteSettings();
+  let enrollmentNo = req.body.enrollmentNo?.trim();
+  const enrollmentSource = enrollmentNo ? 'manual' : 'generated';
+  if (!enrollmentNo) {
+    const department = await DepartmentModel.findById(departmentId);
+    if (!department) {
+      throw new AppError('Department not found', 404);
+    }
+    enrollmentNo = await generateEnrollmentNo(
+      { admissionYear: new Date().getFullYear(), branchCode: department.code },
+      settings
+    );
+  }
 
   // Check if user with email already exists
   const existingUser = await UserModel.findOne({ email });
@@ -300,7 +355,7 @@ export const createStudent = catchAsync(async (req: Request, res: Response) => {
   }
 
   // Generate institutional email from enrollment number
-  const institutionalEmail = `${enrollmentNo.toLowerCase()}@gppalanpur.in`;
+  const institutionalEmail = institutionalEmailFor(enrollmentNo, settings);
 
   // Get admission year from enrollment number
   const admissionYear = getAdmissionYearFromEnrollment(enrollmentNo);
@@ -310,6 +365,7 @@ export const createStudent = catchAsync(async (req: Request, res: Response) => {
     userId,
     departmentId,
     enrollmentNo,
+    enrollmentSource,
     institutionalEmail,
     semester: parseInt(semester),
     batch,
@@ -360,6 +416,16 @@ export const updateStudent = catchAsync(async (req: Request, res: Response) => {
   if (!student) {
     throw new AppError('No student found with that ID', 404);
   }
+  assertDepartmentScope(req, student.departmentId);
+  if (req.body.departmentId) {
+    assertDepartmentScope(req, req.body.departmentId);
+  }
+
+  // Status only changes through the lifecycle rules, which also record the history
+  if (req.body.status !== undefined && req.body.status !== (student.status || 'active')) {
+    throw new AppError('Use PATCH /students/:id/status to change a student\'s status', 400);
+  }
+  delete req.body.status;
 
   // Update user if name or email is provided
   if (req.body.name || req.body.email) {
@@ -403,6 +469,12 @@ export const updateStudent = catchAsync(async (req: Request, res: Response) => {
   ).populate('userId', 'name email')
    .populate('departmentId', 'name');
 
+  // Records created before the student had a department get their number once it is set
+  if (updatedStudent && !updatedStudent.enrollmentNo && updatedStudent.departmentId) {
+    await assignEnrollmentNo(updatedStudent);
+    await updatedStudent.save();
+  }
+
   res.status(200).json({
     status: 'success',
     data: { student: updatedStudent }
@@ -417,6 +489,7 @@ export const deleteStudent = catchAsync(async (req: Request, res: Response) => {
   if (!student) {
     throw new AppError('No student found with that ID', 404);
   }
+  assertDepartmentScope(req, student.departmentId);
 
   // Get the associated user
   const user = await UserModel.findById(student.userId);
@@ -444,6 +517,7 @@ export const deleteStudent = catchAsync(async (req: Request, res: Response) => {
 
 // Get students by department
 export const getStudentsByDepartment = catchAsync(async (req: Request, res: Response) => {
+  assertDepartmentScope(req, req.params.departmentId);
   const students = await StudentModel.find({ departmentId: req.params.departmentId, userId: { $ne: null } })
     .populate('userId', 'name email roles')
     .populate('departmentId', 'name');
@@ -455,8 +529,13 @@ export const getStudentsByDepartment = catchAsync(async (req: Request, res: Resp
 });
 
 // Export students to CSV
-export const exportStudentsCsv = catchAsync(async (_req: Request, res: Response) => {
-  const students = await StudentModel.find({ userId: { $ne: null } })
+export const exportStudentsCsv = catchAsync(async (req: Request, res: Response) => {
+  const query: any = { userId: { $ne: null } };
+  if (req.departmentScope) {
+    query.departmentId = req.departmentScope;
+  }
+
+  const students = await StudentModel.find(query)
     .populate('userId', 'name email roles')
     .populate('departmentId', 'name');
 
@@ -535,333 +614,101 @@ export const exportStudentsCsv = catchAsync(async (_req: Request, res: Response)
   res.status(200).send(csv);
 });
 
-// Helper function to get current semester based on semester status
-function calculateCurrentSemester(semesterStatus: any): number {
-  const isDiploma = true; // TODO: Add proper check based on course/program type
-  const maxSemester = isDiploma ? 6 : 8;
-  const semesters = Array.from({length: maxSemester}, (_, i) => i + 1);
-  
-  for (const sem of semesters.reverse()) {
-    if (semesterStatus[`sem${sem}`] === 'CLEARED' || semesterStatus[`sem${sem}`] === 'PENDING') {
-      return Math.min(sem + 1, maxSemester);
-    }
-  }
-  return 1;
-}
-
-function mapSemesterStatus(value: string): 'CLEARED' | 'PENDING' | 'NOT_ATTEMPTED' {
-  if (!value) return 'NOT_ATTEMPTED';
-  const numValue = parseInt(value);
-  if (isNaN(numValue)) return 'NOT_ATTEMPTED';
-  if (numValue === 2) return 'CLEARED';
-  if (numValue === 1) return 'PENDING';
-  return 'NOT_ATTEMPTED';
-}
-
-// Helper function to extract year from enrollment number
-function getAdmissionYearFromEnrollment(enrollmentNo: string): number {
-  if (!enrollmentNo) return new Date().getFullYear();
-  
-  // First try to get year from first 4 digits
-  let year = parseInt(enrollmentNo.substring(0, 4));
-  if (!isNaN(year) && year >= 2000 && year <= 2030) {
-    return year;
-  }
-  
-  // If that fails, try first 2 digits assuming 20xx format
-  year = parseInt('20' + enrollmentNo.substring(0, 2));
-  if (!isNaN(year) && year >= 2000 && year <= 2030) {
-    return year;
+// Import the GTU student export straight away, without a preview
+export const importGTUStudents = catchAsync(async (req: Request & { file?: Express.Multer.File }, res: Response) => {
+  if (!req.file) {
+    throw new AppError('Please upload a CSV file', 400);
   }
-  
-  // If all fails, return current year
-  return new Date().getFullYear();
-}
 
-function parseStudentName(fullName: string): { firstName: string; middleName: string; lastName: string } {
-  const parts = fullName.trim().split(' ').filter(p => p.length > 0);
-  
-  if (parts.length === 3) {
-    return {
-      lastName: parts[0],
-      firstName: parts[1],
-      middleName: parts[2]
-    };
-  } else if (parts.length === 2) {
-    return {
-      lastName: parts[0],
-      firstName: parts[1],
-      middleName: ''
-    };
-  } else if (parts.length === 1) {
-    return {
-      firstName: parts[0],
-      middleName: '',
-      lastName: ''
-    };
+  const rows = await parseCsvRows(req.file.buffer);
+  if (rows.length === 0) {
+    throw new AppError('CSV file is empty or malformed', 400);
   }
-  
-  return {
-    firstName: fullName,
-    middleName: '',
-    lastName: ''
-  };
-}
-
-function parseBooleanFromCSV(value: any): boolean {
-  if (typeof value === 'boolean') return value;
-  if (typeof value === 'string') {
-    const normalized = value.toLowerCase().trim();
-    return normalized === '1' || normalized === 'true' || normalized === 'yes';
-  }
-  return false;
-}
-
-// Helper function to map gender values
-function mapGenderValue(value: string): string {
-  if (!value) return 'P'; // Default to 'Prefer not to say' if empty
-  const normalized = value.trim().toUpperCase();
-  const genderMap: { [key: string]: string } = {
-    'M': 'M',
-    'MALE': 'M',
-    'F': 'F',
-    'FEMALE': 'F',
-    'O': 'O',
-    'OTHER': 'O',
-    'NB': 'NB',
-    'NON-BINARY': 'NB',
-    'NONBINARY': 'NB',
-    'P': 'P',
-    'PREFER NOT TO SAY': 'P',
-    'PREFER NOT TO DISCLOSE': 'P'
-  };
-  return genderMap[normalized] || 'P';
-}
 
-export const importGTUStudents = catchAsync(async (req: Request & { file?: Express.Multer.File }, res: Response) => {
-  try {
-    if (!req.file) {
-      throw new AppError('Please upload a CSV file', 400);
+  const plan = await planGTUImport(rows);
+  const result = await applyGTUImport(plan.entries);
+  const errors = [...plan.errors, ...result.errors];
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      results: result.students,
+      count: result.students.length,
+      setupEmailsSent: result.setupEmailsSent,
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: plan.warnings.length > 0 ? plan.warnings : undefined
     }
+  });
+});
 
-    const stream = Readable.from(req.file.buffer.toString());
-    
-    // Parse CSV first
-    const rows = await new Promise<any[]>((resolve, reject) => {
-      const results: any[] = [];
-      stream
-        .pipe(csv())
-        .on('data', (data) => results.push(data))
-        .on('end', () => resolve(results))
-        .on('error', (error) => reject(new Error(`Error parsing CSV: ${error.message}`)));
-    });
+// Parse the GTU export and report what importing it would change, without writing any students
+export const previewGTUStudentImport = catchAsync(async (req: Request & { file?: Express.Multer.File }, res: Response) => {
+  if (!req.file) {
+    throw new AppError('Please upload a CSV file', 400);
+  }
 
-    if (rows.length === 0) {
-      throw new AppError('CSV file is empty or malformed', 400);
-    }
+  const rows = await parseCsvRows(req.file.buffer);
+  if (rows.length === 0) {
+    throw new AppError('CSV file is empty or malformed', 400);
+  }
 
-    const processedStudents = [];
-    const errors: { row: number; error: string }[] = [];
-    const warnings: { row: number; warning: string }[] = [];
-
-    // Group operations by department to minimize DB lookups
-    const departmentCache = new Map();
-
-    // Batch process rows
-    const batchSize = 50;
-    for (let i = 0; i < rows.length; i += batchSize) {
-      const batch = rows.slice(i, i + batchSize);
-      const userOps = [];
-      const studentOps = [];
-
-      for (const [index, row] of batch.entries()) {
-        try {
-          const enrollmentNo = row.map_number?.toString().trim();
-          if (!enrollmentNo) {
-            errors.push({ row: index + i + 1, error: 'Missing enrollment number' });
-            continue;
-          }
-
-          // Handle the name properly
-          const fullName = row.Name?.trim() || '';
-          if (!fullName) {
-            warnings.push({ row: index + i + 1, warning: 'Missing student name' });
-          }
-
-          const { firstName, middleName, lastName } = parseStudentName(fullName);
-
-          // Generate institutional email
-          const institutionalEmail = `${enrollmentNo.toLowerCase()}@gppalanpur.in`;
-          const personalEmail = row.Email?.trim() || '';
-
-          const branchCode = row.BR_CODE?.toString().padStart(2, '0');
-          if (!branchCode) {
-            errors.push({ row: index + i + 1, error: 'Missing branch code' });
-            continue;
-          }
-
-          // Use cached department or fetch and cache it
-          let department = departmentCache.get(branchCode);
-          if (!department) {
-            department = await DepartmentModel.findOne({ code: branchCode });
-            if (department) {
-              departmentCache.set(branchCode, department);
-            }
-          }
-
-          if (!department) {
-            warnings.push({ row: index + i + 1, warning: `Department not found for branch code: ${branchCode}` });
-            continue;
-          }
-
-          // Create or update user operations
-          const userUpdate = {
-            filter: { email: institutionalEmail },
-            update: {
-              $set: {
-                name: fullName || 'N/A',
-                email: institutionalEmail,
-                department: department._id,
-              },
-              $setOnInsert: {
-                password: enrollmentNo,
-              },
-              $addToSet: {
-                roles: 'student'
-              }
-            },
-            upsert: true
-          };
-          userOps.push(userUpdate);
-
-          // Get admission year from enrollment number using helper function
-          const admissionYear = getAdmissionYearFromEnrollment(enrollmentNo);
-
-          // Prepare student data
-          const studentData = {
-            filter: { enrollmentNo },
-            update: {
-              $set: {
-                firstName,
-                middleName,
-                lastName,
-                fullName,
-                personalEmail,
-                institutionalEmail,
-                departmentId: department._id,
-                contact: {
-                  mobile: row.Mobile?.trim() || '',
-                  email: personalEmail || institutionalEmail,
-                  address: '',
-                  city: '',
-                  state: '',
-                  pincode: ''
-                },
-                guardian: {
-                  name: '',
-                  relation: '',
-                  contact: '',
-                  occupation: ''
-                },
-                gender: mapGenderValue(row.Gender),
-                category: row.Category?.trim() || 'OPEN',
-                aadharNo: row.aadhar?.trim() || '',
-                semesterStatus: {
-                  sem1: mapSemesterStatus(row.SEM1),
-                  sem2: mapSemesterStatus(row.SEM2),
-                  sem3: mapSemesterStatus(row.SEM3),
-                  sem4: mapSemesterStatus(row.SEM4),
-                  sem5: mapSemesterStatus(row.SEM5),
-                  sem6: mapSemesterStatus(row.SEM6),
-                  sem7: 'NOT_ATTEMPTED',
-                  sem8: 'NOT_ATTEMPTED'
-                },
-                semester: calculateCurrentSemester({
-                  sem1: mapSemesterStatus(row.SEM1),
-                  sem2: mapSemesterStatus(row.SEM2),
-                  sem3: mapSemesterStatus(row.SEM3),
-                  sem4: mapSemesterStatus(row.SEM4),
-                  sem5: mapSemesterStatus(row.SEM5),
-                  sem6: mapSemesterStatus(row.SEM6),
-                  sem7: 'NOT_ATTEMPTED',
-                  sem8: 'NOT_ATTEMPTED'
-                }),
-                admissionYear,
-                batch: `${admissionYear}-${admissionYear + 3}`, // 3 years for diploma
-                status: 'active',
-                isComplete: parseBooleanFromCSV(row.isComplete),
-                termClose: parseBooleanFromCSV(row.termClose),
-                isCancel: parseBooleanFromCSV(row.isCancel),
-                isPassAll: parseBooleanFromCSV(row.ispassall),
-                convoYear: row.convoyear ? parseInt(row.convoyear) : undefined
-              }
-            },
-            upsert: true
-          };
-          studentOps.push(studentData);
-        } catch (error) {
-          errors.push({ 
-            row: index + i + 1, 
-            error: `Failed to process student: ${(error as Error).message}`
-          });
-        }
-      }
+  const plan = await planGTUImport(rows);
+  const preview = await previewGTUImport(plan);
+
+  // Unchanged rows are left out so committing only touches records that differ
+  const unchanged = new Set(preview.unchanged.map((row) => row.enrollmentNo));
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + IMPORT_PREVIEW_TTL_MS);
+  await ImportPreviewModel.create({
+    tokenHash: hashToken(token),
+    kind: 'gtu-students',
+    createdBy: req.user!._id,
+    fileName: req.file.originalname,
+    entries: plan.entries.filter((entry) => !unchanged.has(entry.enrollmentNo)),
+    summary: preview.summary,
+    expiresAt
+  });
 
-      // Execute batch operations
-      try {
-        // Execute user operations
-        const userResults = await Promise.all(
-          userOps.map(op => 
-            UserModel.findOneAndUpdate(op.filter, op.update, { 
-              upsert: true, 
-              new: true,
-              setDefaultsOnInsert: true
-            })
-          )
-        );
-
-        // Map user IDs to their emails for student updates
-        const userIdMap = new Map(
-          userResults.map(user => [user.email, user._id])
-        );
-
-        // Update student operations with user IDs
-        const studentResults = await Promise.all(
-          studentOps.map(op => {
-            const userEmail = (op.update.$set as any).institutionalEmail;
-            const userId = userIdMap.get(userEmail);
-            if (userId) {
-              (op.update.$set as any).userId = userId;
-            }
-            return StudentModel.findOneAndUpdate(op.filter, op.update, {
-              upsert: true,
-              new: true,
-              setDefaultsOnInsert: true
-            });
-          })
-        );
-
-        processedStudents.push(...studentResults);
-      } catch (error) {
-        console.error('Batch operation error:', error);
-        errors.push({
-          row: i + 1,
-          error: `Batch operation failed: ${(error as Error).message}`
-        });
-      }
+  res.status(200).json({
+    status: 'success',
+    data: {
+      token,
+      expiresAt,
+      ...preview
     }
+  });
+});
 
-    res.status(200).json({
-      status: 'success',
-      data: {
-        results: processedStudents,
-        count: processedStudents.length,
-        errors: errors.length > 0 ? errors : undefined,
-        warnings: warnings.length > 0 ? warnings : undefined
-      }
-    });
-  } catch (error) {
-    console.error('Error importing students:', error);
-    throw new AppError('Failed to import students', 500);
+// Apply a previewed import; each preview can only be committed once, by whoever created it
+export const commitGTUStudentImport = catchAsync(async (req: Request, res: Response) => {
+  const { token } = req.body;
+  if (!token) {
+    throw new AppError('Please provide the preview token', 400);
+  }
+
+  const preview = await ImportPreviewModel.findOneAndDelete(
+    {
+      tokenHash: hashToken(String(token)),
+      kind: 'gtu-students',
+      createdBy: req.user!._id,
+      expiresAt: { $gt: new Date() }
+    },
+    { lean: true }
+  );
+  if (!preview) {
+    throw new AppError('This import preview is invalid or has expired. Please upload the file again', 404);
   }
-});
\ No newline at end of file
+
+  const result = await applyGTUImport(preview.entries as GTUImportEntry[]);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      previewed: preview.summary,
+      results: result.students,
+      count: result.students.length,
+      setupEmailsSent: result.setupEmailsSent,
+      errors: result.errors.length > 0 ? result.errors : undefined
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { SubjectModel } from '../models/subject.model';
+import { AttendanceSessionModel } from '../models/attendance-session.model';
+import { AppError } from '../middleware/error.middleware';
+import { assertDepartmentScope } from '../middleware/auth.middleware';
+import { catchAsync } from '../utils/catchAsync';
+
+const UPDATABLE_FIELDS = [
+  'code',
+  'name',
+  'semester',
+  'credits',
+  'hasLecture',
+  'hasLab',
+  'isActive'
+];
+
+// Get subjects, filterable by department, semester and status
+export const getAllSubjects = catchAsync(async (req: Request, res: Response) => {
+  const { departmentId, semester, isActive, search } = req.query;
+
+  const query: any = {};
+  if (departmentId && departmentId !== 'all') query.departmentId = departmentId;
+  if (semester && semester !== 'all') query.semester = parseInt(semester as string);
+  if (isActive !== undefined && isActive !== 'all') query.isActive = isActive === 'true';
+  if (search) {
+    const pattern = new RegExp(String(search).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    query.$or = [{ code: pattern }, { name: pattern }];
+  }
+  if (req.departmentScope) query.departmentId = req.departmentScope;
+
+  const subjects = await SubjectModel.find(query)
+    .populate('departmentId', 'name code')
+    .sort({ semester: 1, code: 1 });
+
+  res.status(200).json({
+    status: 'success',
+    data: { subjects }
+  });
+});
+
+export const getSubject = catchAsync(async (req: Request, res: Response) => {
+  const subject = await SubjectModel.findById(req.params.id).populate('departmentId', 'name code');
+  if (!subject) {
+    throw new AppError('No subject found with that ID', 404);
+  }
+  assertDepartmentScope(req, subject.departmentId);
+
+  res.status(200).json({
+    status: 'success',
+    data: { subject }
+  });
+});
+
+export const createSubject = catchAsync(async (req: Request, res: Response) => {
+  const departmentId = req.departmentScope || req.body.departmentId;
+  assertDepartmentScope(req, departmentId);
+
+  const existing = await SubjectModel.exists({
+    code: String(req.body.code || '').toUpperCase().trim(),
+    departmentId
+  });
+  if (existing) {
+    throw new AppError('This department already has a subject with that code', 409);
+  }
+
+  const subject = await SubjectModel.create({
+    code: req.body.code,
+    name: req.body.name,
+    departmentId,
+    semester: req.body.semester,
+    credits: req.body.credits,
+    hasLecture: req.body.hasLecture,
+    hasLab: req.body.hasLab
+  });
+
+  res.status(201).json({
+    status: 'success',
+    data: { subject }
+  });
+});
+
+export const updateSubject = catchAsync(async (req: Request, res: Response) => {
+  const subject = await SubjectModel.findById(req.params.id);
+  if (!subject) {
+    throw new AppError('No subject found with that ID', 404);
+  }
+  assertDepartmentScope(req, subject.departmentId);
+
+  for (const field of UPDATABLE_FIELDS) {
+    if (req.body[field] !== undefined) subject.set(field, req.body[field]);
+  }
+  await subject.save();
+
+  res.status(200).json({
+    status: 'success',
+    data: { subject }
+  });
+});
+
+// Subjects with recorded attendance are deactivated instead, so reports keep their names
+export const deleteSubject = catchAsync(async (req: Request, res: Response) => {
+  const subject = await SubjectModel.findById(req.params.id);
+  if (!subject) {
+    throw new AppError('No subject found with that ID', 404);
+  }
+  assertDepartmentScope(req, subject.departmentId);
+
+  if (await AttendanceSessionModel.exists({ subjectId: subject._id })) {
+    throw new AppError(
+      'Attendance has been recorded for this subject. Deactivate it instead of deleting it',
+      409
+    );
+  }
+
+  await SubjectModel.findByIdAndDelete(subject._id);
+
+  res.status(204).json({
+    status: 'success',
+    data: null
+  });
+});
@@ -0,0 +1,284 @@
+import { Request, Response, NextFunction } from 'express';
+import QRCode from 'qrcode';
+import { UserModel, IUser } from '../models/user.model';
+import { AppError } from '../middleware/error.middleware';
+import { createSendToken, hashToken } from '../utils/token.utils';
+import { isTwoFactorRequired } from '../utils/permissions';
+import { buildOtpAuthUrl, generateRecoveryCodes, generateSecret, verifyCode } from '../utils/totp';
+import {
+  recordLoginAttempt,
+  registerLoginFailure,
+  reserveLoginAttempt,
+  resetLoginFailures
+} from '../utils/login-guard';
+
+const TWO_FACTOR_SECRETS =
+  '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes +twoFactor.lastUsedStep';
+
+// Accept a current TOTP code (once per time step) or consume one unused recovery code
+const checkSecondFactor = (user: IUser, code?: string, recoveryCode?: string): boolean => {
+  if (code && user.twoFactor.secret) {
+    const step = verifyCode(user.twoFactor.secret, code);
+    if (step !== null && step > (user.twoFactor.lastUsedStep ?? -1)) {
+      user.twoFactor.lastUsedStep = step;
+      return true;
+    }
+  }
+
+  if (recoveryCode) {
+    const hashed = hashToken(String(recoveryCode).trim().toLowerCase());
+    const index = user.twoFactor.recoveryCodes.indexOf(hashed);
+    if (index !== -1) {
+      user.twoFactor.recoveryCodes.splice(index, 1);
+      return true;
+    }
+  }
+
+  return false;
+};
+
+const issueRecoveryCodes = (user: IUser): string[] => {
+  const codes = generateRecoveryCodes();
+  user.twoFactor.recoveryCodes = codes.map((code) => hashToken(code));
+  return codes;
+};
+
+// Second login step: trade the challenge token and a code for a session
+export const verifyTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code, recoveryCode } = req.body;
+
+    if (!code && !recoveryCode) {
+      return next(new AppError('Please provide your authentication code', 400));
+    }
+
+    const user = await UserModel.findById(req.user!._id).select(TWO_FACTOR_SECRETS);
+    if (!user) {
+      return next(new AppError('User no longer exists', 401));
+    }
+
+    if (!user.twoFactor.enabled) {
+      return next(new AppError('Two-factor authentication has not been set up yet', 400));
+    }
+
+    // Codes are only six digits, so they share the password's attempt limits
+    const accountBlock = await reserveLoginAttempt(user);
+    if (accountBlock) {
+      await recordLoginAttempt(req, user.email, accountBlock.outcome, user);
+      res.setHeader('Retry-After', accountBlock.retryAfterSeconds);
+      return next(
+        new AppError(accountBlock.message, accountBlock.outcome === 'locked' ? 423 : 429)
+      );
+    }
+
+    if (!checkSecondFactor(user, code, recoveryCode)) {
+      await registerLoginFailure(user);
+      await recordLoginAttempt(req, user.email, 'invalid-second-factor', user);
+      return next(new AppError('Invalid authentication code', 401));
+    }
+
+    await user.save({ validateBeforeSave: false });
+    await resetLoginFailures(user._id.toString());
+    await recordLoginAttempt(req, user.email, 'success', user);
+
+    await createSendToken(user, 200, req, res, {
+      recoveryCodesRemaining: user.twoFactor.recoveryCodes.length
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Start enrollment: hand out a secret and QR code to scan into an authenticator app
+export const setupTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await UserModel.findById(req.user!._id).select(TWO_FACTOR_SECRETS);
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (user.twoFactor.enabled) {
+      return next(new AppError('Two-factor authentication is already enabled', 400));
+    }
+
+    const secret = generateSecret();
+    user.twoFactor.pendingSecret = secret;
+    await user.save({ validateBeforeSave: false });
+
+    const otpauthUrl = buildOtpAuthUrl(secret, user.email);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        secret,
+        otpauthUrl,
+        qrCode
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Finish enrollment by confirming a code from the app; returns recovery codes exactly once
+export const enableTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return next(new AppError('Please provide the code from your authenticator app', 400));
+    }
+
+    const user = await UserModel.findById(req.user!._id).select(TWO_FACTOR_SECRETS);
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (!user.twoFactor.pendingSecret) {
+      return next(new AppError('Please start two-factor setup first', 400));
+    }
+
+    const step = verifyCode(user.twoFactor.pendingSecret, code);
+    if (step === null) {
+      return next(new AppError('Invalid authentication code', 400));
+    }
+
+    user.twoFactor.enabled = true;
+    user.twoFactor.secret = user.twoFactor.pendingSecret;
+    user.twoFactor.pendingSecret = undefined;
+    user.twoFactor.lastUsedStep = step;
+    user.twoFactor.enabledAt = new Date();
+    const recoveryCodes = issueRecoveryCodes(user);
+    await user.save({ validateBeforeSave: false });
+
+    // Mandatory enrollment during login has no session yet, so this completes the login
+    if (!req.sessionId) {
+      await resetLoginFailures(user._id.toString());
+      await recordLoginAttempt(req, user.email, 'success', user);
+      return createSendToken(user, 200, req, res, { recoveryCodes });
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const disableTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    if (!password || (!code && !recoveryCode)) {
+      return next(new AppError('Please provide your password and an authentication code', 400));
+    }
+
+    const user = await UserModel.findById(req.user!._id).select(`+password ${TWO_FACTOR_SECRETS}`);
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (!user.twoFactor.enabled) {
+      return next(new AppError('Two-factor authentication is not enabled', 400));
+    }
+
+    if (await isTwoFactorRequired(user.roles)) {
+      return next(new AppError('Two-factor authentication is mandatory for your role', 403));
+    }
+
+    // Guessing here would reveal the password, so it counts against the same limits as login
+    const accountBlock = await reserveLoginAttempt(user);
+    if (accountBlock) {
+      await recordLoginAttempt(req, user.email, accountBlock.outcome, user);
+      res.setHeader('Retry-After', accountBlock.retryAfterSeconds);
+      return next(
+        new AppError(accountBlock.message, accountBlock.outcome === 'locked' ? 423 : 429)
+      );
+    }
+
+    if (!(await user.comparePassword(password)) || !checkSecondFactor(user, code, recoveryCode)) {
+      await registerLoginFailure(user);
+      await recordLoginAttempt(req, user.email, 'invalid-second-factor', user);
+      return next(new AppError('Incorrect password or authentication code', 401));
+    }
+    await resetLoginFailures(user._id.toString());
+
+    user.twoFactor.enabled = false;
+    user.twoFactor.secret = undefined;
+    user.twoFactor.recoveryCodes = [];
+    user.twoFactor.lastUsedStep = undefined;
+    user.twoFactor.enabledAt = undefined;
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const regenerateRecoveryCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    const user = await UserModel.findById(req.user!._id).select(TWO_FACTOR_SECRETS);
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (!user.twoFactor.enabled) {
+      return next(new AppError('Two-factor authentication is not enabled', 400));
+    }
+
+    const accountBlock = await reserveLoginAttempt(user);
+    if (accountBlock) {
+      await recordLoginAttempt(req, user.email, accountBlock.outcome, user);
+      res.setHeader('Retry-After', accountBlock.retryAfterSeconds);
+      return next(
+        new AppError(accountBlock.message, accountBlock.outcome === 'locked' ? 423 : 429)
+      );
+    }
+
+    if (!checkSecondFactor(user, code)) {
+      await registerLoginFailure(user);
+      await recordLoginAttempt(req, user.email, 'invalid-second-factor', user);
+      return next(new AppError('Invalid authentication code', 401));
+    }
+    await resetLoginFailures(user._id.toString());
+
+    const recoveryCodes = issueRecoveryCodes(user);
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      status: 'success',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
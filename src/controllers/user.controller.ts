@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserModel } from '../models/user.model';
 import { AppError } from '../middleware/error.middleware';
+import { endUserSessions } from '../utils/token.utils';
+import { getResendWaitSeconds, sendVerificationEmail } from '../utils/email-verification';
 
 export const getMe = async (
   req: Request,
@@ -53,6 +55,15 @@ export const updateMe = async (
       return next(new AppError('Not authenticated', 401));
     }
 
+    // A new address has to be verified again
+    const emailChanged =
+      filteredBody.email !== undefined &&
+      String(filteredBody.email).toLowerCase().trim() !== req.user.email;
+    if (emailChanged) {
+      filteredBody.emailVerified = false;
+      filteredBody.$unset = { emailVerifiedAt: 1 };
+    }
+
     const updatedUser = await UserModel.findByIdAndUpdate(
       req.user._id,
       filteredBody,
@@ -62,6 +73,10 @@ export const updateMe = async (
       }
     );
 
+    if (emailChanged && updatedUser) {
+      await sendVerificationEmail(updatedUser);
+    }
+
     res.status(200).json({
       status: 'success',
       data: {
@@ -73,6 +88,48 @@ export const updateMe = async (
   }
 };
 
+export const updatePassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      return next(new AppError('Please provide your current and new password', 400));
+    }
+
+    if (!req.user) {
+      return next(new AppError('Not authenticated', 401));
+    }
+
+    // 1) Get user with password
+    const user = await UserModel.findById(req.user._id).select('+password');
+
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // 2) Check if posted current password is correct
+    if (!(await user.comparePassword(currentPassword))) {
+      return next(new AppError('Your current password is wrong', 401));
+    }
+
+    // 3) Update password and log out every other session
+    user.password = newPassword;
+    await user.save();
+    await endUserSessions(user._id.toString(), 'password-change', req.sessionId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Password updated successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 const filterObj = (obj: any, ...allowedFields: string[]) => {
   const newObj: any = {};
   Object.keys(obj).forEach((el) => {
@@ -80,3 +137,38 @@ const filterObj = (obj: any, ...allowedFields: string[]) => {
   });
   return newObj;
 };
+
+export const resendVerificationEmail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await UserModel.findById(req.user!._id);
+
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (user.emailVerified !== false) {
+      return next(new AppError('Your email address is already verified', 400));
+    }
+
+    const waitSeconds = getResendWaitSeconds(user);
+    if (waitSeconds > 0) {
+      res.setHeader('Retry-After', waitSeconds);
+      return next(
+        new AppError(`Please wait ${waitSeconds} seconds before requesting another email`, 429)
+      );
+    }
+
+    await sendVerificationEmail(user);
+
+    res.status(200).json({
+      status: 'success',
+      message: `Verification email sent to ${user.email}`,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
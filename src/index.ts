@@ -11,21 +11,48 @@ import studentRoutes from './routes/student.routes';
 import resultRoutes from './routes/result.routes';
 import projectRoutes from './routes/project.routes';
 import feedbackRoutes from './routes/feedback';
+import documentRoutes from './routes/document.routes';
+import subjectRoutes from './routes/subject.routes';
+import attendanceRoutes from './routes/attendance.routes';
+import alumniRoutes from './routes/alumni.routes';
 import { errorHandler } from './middleware/error.middleware';
+import { auditRequestContext } from './utils/audit';
+import { syncBuiltInRolePermissions } from './utils/permissions';
+import { getMailTransport, scheduleEmailRetries } from './utils/mailer';
+import { defaultEnrollmentPattern } from './models/institute-settings.model';
 
 // Load environment variables
 dotenv.config();
 
 const app = express();
 
+/**
+ * Behind a reverse proxy req.ip is the proxy's address unless Express is told to trust it,
+ * and the per-IP login limits would then lock out everyone at once. TRUST_PROXY takes what
+ * Express's 'trust proxy' setting does: true, a hop count such as 1, or a comma-separated
+ * list of proxy addresses or subnets. Leave it unset when clients connect directly.
+ */
+const parseTrustProxy = (value?: string): boolean | number | string[] | undefined => {
+  if (!value) return undefined;
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^\d+$/.test(value)) return parseInt(value);
+  return value.split(',').map((entry) => entry.trim()).filter(Boolean);
+};
+
+const trustProxy = parseTrustProxy(process.env.TRUST_PROXY);
+if (trustProxy !== undefined) {
+  app.set('trust proxy', trustProxy);
+}
+
 // Middleware
 app.use(cors({
   origin: 'http://localhost:3000', // React app URL
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
 }));
 app.use(express.json({ limit: '10mb' })); // Increased limit for file uploads
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+app.use(auditRequestContext);
 
 // Routes
 app.use('/api/auth', authRoutes);
@@ -37,6 +64,10 @@ app.use('/api/students', studentRoutes);
 app.use('/api/results', resultRoutes);
 app.use('/api/projects', projectRoutes);
 app.use('/api/feedback', feedbackRoutes);
+app.use('/api/documents', documentRoutes);
+app.use('/api/subjects', subjectRoutes);
+app.use('/api/attendance', attendanceRoutes);
+app.use('/api/alumni', alumniRoutes);
 
 // Health check endpoint
 app.get('/health', (_req, res) => {
@@ -59,6 +90,16 @@ app.use((_req, res) => {
   });
 });
 
+// Refuse to start without a way to deliver mail, rather than losing every message, or with
+// an enrollment pattern that can't generate numbers
+try {
+  getMailTransport();
+  defaultEnrollmentPattern();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+
 // Connect to MongoDB
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://127.0.0.1:27017/gpp-portal';
 const PORT = process.env.PORT || 9000;
@@ -67,6 +108,17 @@ mongoose
   .connect(MONGODB_URI)
   .then(() => {
     console.log('Connected to MongoDB');
+
+    // Roles seeded by an earlier release pick up permissions added since
+    syncBuiltInRolePermissions()
+      .then((updated) => {
+        if (updated.length > 0) console.log(`Updated built-in roles: ${updated.join(', ')}`);
+      })
+      .catch((error) => console.error('Failed to update built-in roles:', error));
+
+    // Mail that couldn't be delivered when it was queued is sent once the transport is back
+    scheduleEmailRetries();
+
     app.listen(PORT, () => {
       console.log(`Server is running on port ${PORT}`);
     });
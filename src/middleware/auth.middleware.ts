@@ -1,26 +1,93 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
 import { AppError } from './error.middleware';
 import { IUser, UserModel } from '../models/user.model';
+import { ImpersonationLogModel } from '../models/impersonation-log.model';
+import {
+  ChallengePurpose,
+  isSessionActive,
+  touchSession,
+  verifyChallengeToken
+} from '../utils/token.utils';
+import { grants, resolvePermissions, resolveRole } from '../utils/permissions';
+import { setAuditActor } from '../utils/audit';
+import { authenticateApiKey, recordApiKeyUsage } from '../utils/api-key';
+import { getInactiveMessage } from '../utils/login-guard';
+import { IApiKey } from '../models/api-key.model';
 
-interface JwtPayload {
+export interface JwtPayload {
   id: string;
   selectedRole: string;
+  sid: string; // Session (refresh token family) the access token was issued for
+  impersonator?: string; // Admin viewing as this user
 }
 
 declare module 'express-serve-static-core' {
   interface Request {
     user?: IUser;
     role?: string;
+    sessionId?: string;
+    departmentScope?: string;
+    impersonator?: IUser;
+    apiKey?: IApiKey;
+    // Set once requirePermission has checked the API key; handlers refuse keys without it
+    apiKeyAuthorized?: boolean;
   }
 }
 
+// Attribute every request made under impersonation to the admin once the response is sent
+const recordImpersonatedRequest = (req: Request, res: Response): void => {
+  res.on('finish', () => {
+    ImpersonationLogModel.create({
+      impersonator: req.impersonator!._id,
+      userId: req.user!._id,
+      sid: req.sessionId,
+      action: 'request',
+      role: req.role,
+      method: req.method,
+      path: req.originalUrl,
+      statusCode: res.statusCode,
+      bodyFields: req.body && typeof req.body === 'object' ? Object.keys(req.body) : [],
+      blocked: Boolean(res.locals.impersonationBlocked),
+      ip: req.ip
+    }).catch((error) => console.error('Failed to record impersonated request:', error));
+  });
+};
+
+// Checked on every impersonated request, so losing the permission ends impersonation at once
+const canImpersonate = async (admin: IUser): Promise<boolean> => {
+  const permissions = await Promise.all(admin.roles.map((role) => resolvePermissions(role)));
+  return permissions.some((granted) => grants(granted, 'users:impersonate'));
+};
+
 export const protect = async (
   req: Request,
-  _res: Response,
+  res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
+    // Service accounts authenticate with an API key in its own header instead of a JWT
+    const presentedKey = req.get('x-api-key');
+    if (presentedKey && !req.headers.authorization) {
+      const apiKey = await authenticateApiKey(presentedKey);
+      const account = apiKey ? await UserModel.findById(apiKey.serviceAccount) : null;
+      if (!apiKey || !account || account.accountType !== 'service') {
+        return next(new AppError('Invalid or expired API key', 401));
+      }
+      const inactiveMessage = getInactiveMessage(account);
+      if (inactiveMessage) {
+        return next(new AppError(inactiveMessage, 401));
+      }
+
+      // The key still has to pass requirePermission on the route before any handler runs for it
+      req.user = account;
+      req.apiKey = apiKey;
+      await recordApiKeyUsage(apiKey, req, res);
+      setAuditActor(account, `api-key:${apiKey.prefix}`);
+      return next();
+    }
+
     // 1) Get token from header
     const authHeader = req.headers.authorization;
     let token;
@@ -34,26 +101,122 @@ export const protect = async (
     }
 
     // 2) Verify token
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET as string
-    ) as JwtPayload;
+    let decoded: JwtPayload;
+    try {
+      decoded = jwt.verify(token, process.env.JWT_SECRET as string) as JwtPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        return next(new AppError('Your token has expired', 401));
+      }
+      return next(new AppError('Invalid token', 401));
+    }
+
+    // 3) Check if the session was logged out or revoked
+    if (!decoded.sid || !(await isSessionActive(decoded.sid))) {
+      return next(new AppError('Your session has ended. Please log in again', 401));
+    }
 
-    // 3) Check if user still exists
+    // 4) Check if user still exists
     const user = await UserModel.findById(decoded.id);
     if (!user) {
       return next(new AppError('User no longer exists', 401));
     }
 
-    // 4) Set user and selected role in request
+    // Suspension takes effect on the next request, not when the token expires
+    const inactiveMessage = getInactiveMessage(user);
+    if (inactiveMessage) {
+      return next(new AppError(inactiveMessage, 401));
+    }
+
+    // 5) Set user, selected role and session in request
     req.user = user;
     req.role = decoded.selectedRole;
+    req.sessionId = decoded.sid;
+    await touchSession(decoded.sid, req.ip);
+
+    // 6) Impersonation tokens also carry the admin, who must still be active and allowed to
+    if (decoded.impersonator) {
+      const impersonator = await UserModel.findById(decoded.impersonator);
+      if (
+        !impersonator ||
+        getInactiveMessage(impersonator) ||
+        !(await canImpersonate(impersonator))
+      ) {
+        return next(new AppError('Your session has ended. Please log in again', 401));
+      }
+      req.impersonator = impersonator;
+      recordImpersonatedRequest(req, res);
+    }
+    setAuditActor(user, req.role, req.impersonator);
     next();
   } catch (error) {
-    next(new AppError('Invalid token', 401));
+    next(error);
   }
 };
 
+// Authenticates a follow-up login step with the challenge token issued after the password check
+const authenticateChallenge =
+  (purpose: ChallengePurpose) =>
+  async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.body.challengeToken
+        ? verifyChallengeToken(req.body.challengeToken, purpose)
+        : null;
+      if (!userId) {
+        return next(new AppError('Your login attempt has expired. Please log in again', 401));
+      }
+
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        return next(new AppError('User no longer exists', 401));
+      }
+
+      const inactiveMessage = getInactiveMessage(user);
+      if (inactiveMessage) {
+        return next(new AppError(inactiveMessage, 401));
+      }
+
+      req.user = user;
+      req.role = user.selectedRole;
+      setAuditActor(user, req.role);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const protectChallenge = authenticateChallenge('two-factor');
+export const protectPasswordChallenge = authenticateChallenge('password-change');
+
+// Self-registered accounts must confirm their address before using these routes
+export const requireVerifiedEmail = (req: Request, _res: Response, next: NextFunction): void => {
+  if (req.user?.emailVerified === false) {
+    return next(new AppError('Please verify your email address first', 403));
+  }
+  next();
+};
+
+// Account self-service (password, sessions, 2FA, roles) only makes sense for people
+export const denyApiKeys = (req: Request, _res: Response, next: NextFunction): void => {
+  if (req.apiKey) {
+    return next(new AppError('This route cannot be used with an API key', 403));
+  }
+  next();
+};
+
+// Security-sensitive operations (credentials, sessions, administration) stay with the real user
+export const denyWhileImpersonating = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.impersonator) {
+    res.locals.impersonationBlocked = true;
+    return next(new AppError('This action is not allowed while impersonating a user', 403));
+  }
+  next();
+};
+
 export const restrictTo = (...roles: string[]) => {
   return (req: Request, _res: Response, next: NextFunction): void => {
     if (!roles.includes(req.role!)) {
@@ -64,3 +227,88 @@ export const restrictTo = (...roles: string[]) => {
     next();
   };
 };
+
+// Permissions are resolved from the Role collection for the selected role on every request
+export const requirePermission = (...permissions: string[]) => {
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      // API keys carry their own permissions instead of a role
+      if (req.apiKey) {
+        if (!permissions.every((permission) => grants(req.apiKey!.permissions, permission))) {
+          return next(new AppError('This API key does not have permission for this action', 403));
+        }
+        req.apiKeyAuthorized = true;
+        return next();
+      }
+
+      // A role removed from the user after the token was issued no longer counts
+      if (!req.user || !req.role || !req.user.roles.includes(req.role)) {
+        return next(
+          new AppError('You do not have permission to perform this action', 403)
+        );
+      }
+
+      const granted = await resolvePermissions(req.role);
+      if (!permissions.every((permission) => grants(granted, permission))) {
+        return next(
+          new AppError('You do not have permission to perform this action', 403)
+        );
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// For handlers where access also depends on the record, e.g. students reading their own data
+export const hasPermission = async (req: Request, permission: string): Promise<boolean> => {
+  if (req.apiKey) return grants(req.apiKey.permissions, permission);
+  if (!req.user || !req.role || !req.user.roles.includes(req.role)) return false;
+  return grants(await resolvePermissions(req.role), permission);
+};
+
+// Department-scoped roles (HOD, faculty) get req.departmentScope set to their own department
+export const scopeToDepartment = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (req.apiKey) {
+      if (req.apiKey.department) {
+        req.departmentScope = req.apiKey.department.toString();
+      }
+      return next();
+    }
+
+    const { scope } = await resolveRole(req.role!);
+
+    if (scope === 'department') {
+      if (!req.user?.department) {
+        return next(new AppError('Your account is not assigned to a department', 403));
+      }
+      req.departmentScope = req.user.department.toString();
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Throw if a department-scoped user touches a record from another department
+export const assertDepartmentScope = (
+  req: Request,
+  departmentId?: mongoose.Types.ObjectId | string | { _id: unknown } | null
+): void => {
+  if (!req.departmentScope) return;
+
+  const id =
+    departmentId && typeof departmentId === 'object' && '_id' in departmentId
+      ? String(departmentId._id)
+      : String(departmentId);
+
+  if (id !== req.departmentScope) {
+    throw new AppError('You can only access records of your own department', 403);
+  }
+};
@@ -0,0 +1,130 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
+
+export const ALUMNI_OUTCOMES = [
+  'higher-studies',
+  'employed',
+  'self-employed',
+  'preparing-for-exams',
+  'seeking-employment',
+  'other'
+] as const;
+export type AlumniOutcome = (typeof ALUMNI_OUTCOMES)[number];
+
+// What a graduated student went on to do, kept up to date by the alumnus through a link
+export interface IAlumniProfile extends Document {
+  student: mongoose.Types.ObjectId;
+  // Copied from the student so cohort reports don't need a join
+  department?: mongoose.Types.ObjectId;
+  admissionYear?: number;
+  convoYear?: number;
+  outcome?: AlumniOutcome;
+  higherStudies?: {
+    programme?: string;
+    institution?: string;
+    startYear?: number;
+  };
+  employment?: {
+    organization?: string;
+    designation?: string;
+    location?: string;
+    startDate?: Date;
+  };
+  contact: {
+    email?: string;
+    mobile?: string;
+    city?: string;
+    linkedin?: string;
+  };
+  consentToContact: boolean;
+  respondedAt?: Date;
+  // Who last recorded the outcome; absent when the alumnus filled it in themselves
+  updatedBy?: mongoose.Types.ObjectId | string;
+  linkTokenHash?: string;
+  linkExpiresAt?: Date;
+  linkSentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const alumniProfileSchema = new Schema(
+  {
+    student: {
+      type: Schema.Types.ObjectId,
+      ref: 'Student',
+      required: true,
+      unique: true,
+    },
+    department: {
+      type: Schema.Types.ObjectId,
+      ref: 'Department',
+    },
+    admissionYear: {
+      type: Number,
+    },
+    convoYear: {
+      type: Number,
+    },
+    outcome: {
+      type: String,
+      enum: ALUMNI_OUTCOMES,
+    },
+    higherStudies: {
+      programme: { type: String, trim: true },
+      institution: { type: String, trim: true },
+      startYear: { type: Number },
+    },
+    employment: {
+      organization: { type: String, trim: true },
+      designation: { type: String, trim: true },
+      location: { type: String, trim: true },
+      startDate: { type: Date },
+    },
+    contact: {
+      email: {
+        type: String,
+        trim: true,
+        lowercase: true,
+        match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Please provide a valid email address'],
+      },
+      mobile: { type: String, trim: true },
+      city: { type: String, trim: true },
+      linkedin: { type: String, trim: true },
+    },
+    consentToContact: {
+      type: Boolean,
+      default: false,
+    },
+    respondedAt: {
+      type: Date,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    linkTokenHash: {
+      type: String,
+      unique: true,
+      sparse: true,
+      select: false,
+    },
+    linkExpiresAt: {
+      type: Date,
+    },
+    linkSentAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+alumniProfileSchema.index({ department: 1, admissionYear: 1 });
+
+alumniProfileSchema.plugin(auditPlugin, { entity: 'AlumniProfile', ignore: ['linkTokenHash'] });
+
+export const AlumniProfileModel: Model<IAlumniProfile> = mongoose.model<IAlumniProfile>(
+  'AlumniProfile',
+  alumniProfileSchema
+);
@@ -0,0 +1,47 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IApiKeyUsage extends Document {
+  apiKey: mongoose.Types.ObjectId;
+  method: string;
+  path: string;
+  statusCode: number;
+  ip?: string;
+  createdAt: Date;
+}
+
+const apiKeyUsageSchema = new Schema(
+  {
+    apiKey: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey',
+      required: true,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    statusCode: {
+      type: Number,
+      required: true,
+    },
+    ip: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+apiKeyUsageSchema.index({ apiKey: 1, createdAt: -1 });
+// Request history is kept for 90 days; the totals on the key itself are kept for good
+apiKeyUsageSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const ApiKeyUsageModel: Model<IApiKeyUsage> = mongoose.model<IApiKeyUsage>(
+  'ApiKeyUsage',
+  apiKeyUsageSchema
+);
@@ -0,0 +1,96 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { isValidPermission } from '../utils/permissions';
+import { auditPlugin } from '../utils/audit';
+
+export interface IApiKey extends Document {
+  name: string;
+  serviceAccount: mongoose.Types.ObjectId;
+  prefix: string; // Public part of the key, used to look it up and shown in listings
+  keyHash: string;
+  permissions: string[];
+  department?: mongoose.Types.ObjectId; // Limits the key to one department's records
+  expiresAt?: Date;
+  revokedAt?: Date;
+  replacedBy?: mongoose.Types.ObjectId;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  usageCount: number;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiKeySchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Please provide a name for the key'],
+      trim: true,
+    },
+    serviceAccount: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    prefix: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    permissions: {
+      type: [String],
+      validate: {
+        validator: (permissions: string[]) =>
+          permissions.length > 0 &&
+          permissions.every((permission) => permission !== '*' && isValidPermission(permission)),
+        message: 'API keys need at least one resource:action permission and cannot be granted *',
+      },
+    },
+    department: {
+      type: Schema.Types.ObjectId,
+      ref: 'Department',
+    },
+    expiresAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    replacedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey',
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    lastUsedIp: {
+      type: String,
+    },
+    usageCount: {
+      type: Number,
+      default: 0,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+apiKeySchema.index({ serviceAccount: 1 });
+
+apiKeySchema.plugin(auditPlugin, {
+  entity: 'ApiKey',
+  ignore: ['lastUsedAt', 'lastUsedIp', 'usageCount'],
+  redact: ['keyHash'],
+});
+
+export const ApiKeyModel: Model<IApiKey> = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
@@ -0,0 +1,113 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
+
+export type SessionType = 'lecture' | 'lab';
+export type AttendanceStatus = 'present' | 'absent';
+
+export interface IAttendanceRecord {
+  student: mongoose.Types.ObjectId;
+  status: AttendanceStatus;
+}
+
+export interface IAttendanceSession extends Document {
+  subjectId: mongoose.Types.ObjectId;
+  departmentId: mongoose.Types.ObjectId;
+  semester: number;
+  batch: string;
+  type: SessionType;
+  date: Date;
+  // Distinguishes several sessions of the same subject on one day, e.g. lecture 1 and 2
+  slot: number;
+  // Lab sessions are often held for part of a batch at a time
+  group?: string;
+  topic?: string;
+  markedBy: mongoose.Types.ObjectId | string;
+  records: IAttendanceRecord[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attendanceSessionSchema = new Schema(
+  {
+    subjectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Subject',
+      required: true,
+    },
+    departmentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Department',
+      required: true,
+    },
+    semester: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 8,
+    },
+    batch: {
+      type: String,
+      required: [true, 'Batch is required'],
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: ['lecture', 'lab'],
+      default: 'lecture',
+    },
+    date: {
+      type: Date,
+      required: [true, 'Session date is required'],
+    },
+    slot: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    group: {
+      type: String,
+      trim: true,
+    },
+    topic: {
+      type: String,
+      trim: true,
+    },
+    markedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    records: [
+      {
+        _id: false,
+        student: {
+          type: Schema.Types.ObjectId,
+          ref: 'Student',
+          required: true,
+        },
+        status: {
+          type: String,
+          enum: ['present', 'absent'],
+          required: true,
+        },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+attendanceSessionSchema.index(
+  { subjectId: 1, batch: 1, type: 1, group: 1, date: 1, slot: 1 },
+  { unique: true }
+);
+attendanceSessionSchema.index({ departmentId: 1, semester: 1, batch: 1, date: -1 });
+attendanceSessionSchema.index({ 'records.student': 1 });
+
+attendanceSessionSchema.plugin(auditPlugin, { entity: 'AttendanceSession' });
+
+export const AttendanceSessionModel: Model<IAttendanceSession> = mongoose.model<IAttendanceSession>(
+  'AttendanceSession',
+  attendanceSessionSchema
+);
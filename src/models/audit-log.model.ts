@@ -0,0 +1,86 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface IAuditLog extends Document {
+  actor?: mongoose.Types.ObjectId; // Empty for signups, scripts and other unauthenticated changes
+  actorEmail?: string;
+  role?: string;
+  impersonator?: mongoose.Types.ObjectId;
+  action: AuditAction;
+  entity: string;
+  entityId: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  changedFields: string[];
+  method?: string;
+  path?: string;
+  ip?: string;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema(
+  {
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    actorEmail: {
+      type: String,
+    },
+    role: {
+      type: String,
+    },
+    impersonator: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    action: {
+      type: String,
+      enum: ['create', 'update', 'delete'],
+      required: true,
+    },
+    entity: {
+      type: String,
+      required: true,
+    },
+    entityId: {
+      type: String,
+      required: true,
+    },
+    // Only the changed fields for updates; the whole record for creates and deletes
+    before: {
+      type: Schema.Types.Mixed,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+    },
+    changedFields: [
+      {
+        type: String,
+      },
+    ],
+    method: {
+      type: String,
+    },
+    path: {
+      type: String,
+    },
+    ip: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+auditLogSchema.index({ entity: 1, entityId: 1, createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+export const AuditLogModel: Model<IAuditLog> = mongoose.model<IAuditLog>(
+  'AuditLog',
+  auditLogSchema
+);
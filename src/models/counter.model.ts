@@ -0,0 +1,25 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// Named sequence, advanced atomically with $inc so concurrent requests never share a value
+export interface ICounter extends Omit<Document, '_id'> {
+  _id: string;
+  seq: number;
+}
+
+const counterSchema = new Schema(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    seq: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+export const CounterModel: Model<ICounter> = mongoose.model<ICounter>('Counter', counterSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
 
 export interface IDepartment extends Document {
   name: string;
@@ -49,4 +50,6 @@ const departmentSchema = new Schema({
 departmentSchema.index({ name: 1 });
 departmentSchema.index({ code: 1 });
 
+departmentSchema.plugin(auditPlugin, { entity: 'Department' });
+
 export const DepartmentModel = mongoose.model<IDepartment>('Department', departmentSchema);
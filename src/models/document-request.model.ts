@@ -0,0 +1,145 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
+
+export const DOCUMENT_TYPES = ['bonafide', 'character', 'fee'] as const;
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+
+// Each request moves through the HOD and then the principal before it is issued
+export type DocumentRequestStatus =
+  | 'pending-hod'
+  | 'pending-principal'
+  | 'approved'
+  | 'rejected'
+  | 'cancelled';
+
+export interface IDocumentApproval {
+  stage: 'hod' | 'principal';
+  decision: 'approved' | 'rejected';
+  by: mongoose.Types.ObjectId | string;
+  at: Date;
+  remarks?: string;
+}
+
+export interface IDocumentRequest extends Document {
+  student: mongoose.Types.ObjectId;
+  department?: mongoose.Types.ObjectId;
+  requestedBy: mongoose.Types.ObjectId | string;
+  type: DocumentType;
+  purpose: string;
+  academicYear?: string;
+  status: DocumentRequestStatus;
+  approvals: IDocumentApproval[];
+  rejectionReason?: string;
+  verificationCode?: string;
+  issuedAt?: Date;
+  // Student details as they were on the day of issue, so reprints always match
+  issuedDetails?: {
+    name: string;
+    enrollmentNo: string;
+    department?: string;
+    semester?: number;
+    batch?: string;
+    admissionYear?: number;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const documentRequestSchema = new Schema(
+  {
+    student: {
+      type: Schema.Types.ObjectId,
+      ref: 'Student',
+      required: true,
+    },
+    department: {
+      type: Schema.Types.ObjectId,
+      ref: 'Department',
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: DOCUMENT_TYPES,
+      required: [true, 'Document type is required'],
+    },
+    purpose: {
+      type: String,
+      required: [true, 'Please state what the document is needed for'],
+      trim: true,
+      maxlength: 500,
+    },
+    academicYear: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending-hod', 'pending-principal', 'approved', 'rejected', 'cancelled'],
+      default: 'pending-hod',
+    },
+    approvals: [
+      {
+        stage: {
+          type: String,
+          enum: ['hod', 'principal'],
+          required: true,
+        },
+        decision: {
+          type: String,
+          enum: ['approved', 'rejected'],
+          required: true,
+        },
+        by: {
+          type: Schema.Types.ObjectId,
+          ref: 'User',
+          required: true,
+        },
+        at: {
+          type: Date,
+          default: Date.now,
+        },
+        remarks: {
+          type: String,
+          trim: true,
+        },
+      },
+    ],
+    rejectionReason: {
+      type: String,
+      trim: true,
+    },
+    verificationCode: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+    issuedAt: {
+      type: Date,
+    },
+    issuedDetails: {
+      name: String,
+      enrollmentNo: String,
+      department: String,
+      semester: Number,
+      batch: String,
+      admissionYear: Number,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+documentRequestSchema.index({ student: 1, createdAt: -1 });
+documentRequestSchema.index({ department: 1, status: 1 });
+
+documentRequestSchema.plugin(auditPlugin, { entity: 'DocumentRequest' });
+
+export const DocumentRequestModel: Model<IDocumentRequest> = mongoose.model<IDocumentRequest>(
+  'DocumentRequest',
+  documentRequestSchema
+);
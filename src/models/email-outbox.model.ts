@@ -0,0 +1,71 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IEmailOutbox extends Document {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  category: string; // e.g. password-reset, used to filter the outbox
+  status: 'queued' | 'sent' | 'failed';
+  transport?: string;
+  attempts: number;
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const emailOutboxSchema = new Schema(
+  {
+    to: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    subject: {
+      type: String,
+      required: true,
+    },
+    text: {
+      type: String,
+      required: true,
+    },
+    html: {
+      type: String,
+    },
+    category: {
+      type: String,
+      default: 'general',
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'sent', 'failed'],
+      default: 'queued',
+    },
+    transport: {
+      type: String,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lastError: {
+      type: String,
+    },
+    sentAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+emailOutboxSchema.index({ status: 1, createdAt: 1 });
+emailOutboxSchema.index({ to: 1 });
+
+export const EmailOutboxModel: Model<IEmailOutbox> = mongoose.model<IEmailOutbox>(
+  'EmailOutbox',
+  emailOutboxSchema
+);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
 
 export interface IFaculty extends Document {
   userId: mongoose.Types.ObjectId;
@@ -89,4 +90,6 @@ const facultySchema = new Schema({
   timestamps: true
 });
 
+facultySchema.plugin(auditPlugin, { entity: 'Faculty' });
+
 export const FacultyModel: Model<IFaculty> = mongoose.model<IFaculty>('Faculty', facultySchema);
@@ -0,0 +1,84 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export type ImpersonationAction = 'start' | 'request' | 'end';
+
+export interface IImpersonationLog extends Document {
+  impersonator: mongoose.Types.ObjectId; // The admin really making the requests
+  userId: mongoose.Types.ObjectId; // The user being viewed as
+  sid: string;
+  action: ImpersonationAction;
+  role?: string;
+  reason?: string;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  bodyFields?: string[];
+  blocked: boolean;
+  ip?: string;
+  createdAt: Date;
+}
+
+const impersonationLogSchema = new Schema(
+  {
+    impersonator: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    sid: {
+      type: String,
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ['start', 'request', 'end'],
+      required: true,
+    },
+    role: {
+      type: String,
+    },
+    reason: {
+      type: String,
+      trim: true,
+    },
+    method: {
+      type: String,
+    },
+    path: {
+      type: String,
+    },
+    statusCode: {
+      type: Number,
+    },
+    // Only the names of submitted fields, so passwords and personal data aren't copied here
+    bodyFields: [
+      {
+        type: String,
+      },
+    ],
+    blocked: {
+      type: Boolean,
+      default: false,
+    },
+    ip: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+impersonationLogSchema.index({ impersonator: 1, createdAt: -1 });
+impersonationLogSchema.index({ userId: 1, createdAt: -1 });
+impersonationLogSchema.index({ sid: 1, createdAt: 1 });
+
+export const ImpersonationLogModel: Model<IImpersonationLog> = mongoose.model<IImpersonationLog>(
+  'ImpersonationLog',
+  impersonationLogSchema
+);
@@ -0,0 +1,57 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// A parsed import held between the dry-run preview and the admin committing it
+export interface IImportPreview extends Document {
+  tokenHash: string;
+  kind: 'gtu-students';
+  createdBy: mongoose.Types.ObjectId | string;
+  fileName?: string;
+  entries: unknown[];
+  summary: Record<string, number>;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const importPreviewSchema = new Schema(
+  {
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    kind: {
+      type: String,
+      enum: ['gtu-students'],
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    fileName: {
+      type: String,
+    },
+    entries: {
+      type: [Schema.Types.Mixed],
+      default: [],
+    },
+    summary: {
+      type: Schema.Types.Mixed,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+importPreviewSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const ImportPreviewModel: Model<IImportPreview> = mongoose.model<IImportPreview>(
+  'ImportPreview',
+  importPreviewSchema
+);
@@ -0,0 +1,76 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
+import { validateEnrollmentPattern } from '../utils/enrollment';
+
+export const INSTITUTE_SETTINGS_KEY = 'default';
+
+// Pattern used until an admin saves one; a bad ENROLLMENT_PATTERN throws instead of being stored
+export const defaultEnrollmentPattern = (): string => {
+  const pattern = process.env.ENROLLMENT_PATTERN || '{YY}{INSTITUTE}03{BRANCH}{SEQ:3}';
+  try {
+    validateEnrollmentPattern(pattern);
+  } catch (error) {
+    throw new Error(`Invalid ENROLLMENT_PATTERN: ${(error as Error).message}`);
+  }
+  return pattern;
+};
+
+// Institute-wide settings, kept as a single document
+export interface IInstituteSettings extends Document {
+  key: string;
+  name: string;
+  code: string;
+  emailDomain: string;
+  enrollmentPattern: string;
+  updatedBy?: mongoose.Types.ObjectId | string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const instituteSettingsSchema = new Schema(
+  {
+    key: {
+      type: String,
+      default: INSTITUTE_SETTINGS_KEY,
+      unique: true,
+    },
+    name: {
+      type: String,
+      trim: true,
+      default: () => process.env.INSTITUTE_NAME || 'Government Polytechnic, Palanpur',
+    },
+    // GTU institute code used in enrollment numbers
+    code: {
+      type: String,
+      trim: true,
+      match: [/^\d{3}$/, 'Institute code must be 3 digits'],
+      default: () => process.env.INSTITUTE_CODE || '016',
+    },
+    emailDomain: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      match: [/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Please provide a valid email domain'],
+      default: () => process.env.INSTITUTE_EMAIL_DOMAIN || 'gppalanpur.in',
+    },
+    enrollmentPattern: {
+      type: String,
+      trim: true,
+      default: defaultEnrollmentPattern,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+instituteSettingsSchema.plugin(auditPlugin, { entity: 'InstituteSettings' });
+
+export const InstituteSettingsModel: Model<IInstituteSettings> = mongoose.model<IInstituteSettings>(
+  'InstituteSettings',
+  instituteSettingsSchema
+);
@@ -0,0 +1,89 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
+
+export interface IInvitation extends Document {
+  email: string;
+  name?: string;
+  roles: string[];
+  department: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  status: 'pending' | 'accepted' | 'revoked';
+  invitedBy: mongoose.Types.ObjectId;
+  acceptedAt?: Date;
+  acceptedUser?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const invitationSchema = new Schema(
+  {
+    email: {
+      type: String,
+      required: [true, 'Invitation email is required'],
+      lowercase: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      trim: true,
+    },
+    roles: {
+      type: [String],
+      validate: {
+        validator: (roles: string[]) => roles.length > 0 && !roles.includes('student'),
+        message: 'Invitations need at least one role and are not used for students',
+      },
+    },
+    department: {
+      type: Schema.Types.ObjectId,
+      ref: 'Department',
+      required: [true, 'Department is required'],
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'revoked'],
+      default: 'pending',
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    acceptedUser: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+invitationSchema.index({ email: 1, status: 1 });
+
+invitationSchema.virtual('isExpired').get(function () {
+  return this.expiresAt.getTime() <= Date.now();
+});
+
+invitationSchema.plugin(auditPlugin, { entity: 'Invitation', redact: ['tokenHash'] });
+
+export const InvitationModel: Model<IInvitation> = mongoose.model<IInvitation>(
+  'Invitation',
+  invitationSchema
+);
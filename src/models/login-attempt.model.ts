@@ -0,0 +1,70 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export const LOGIN_ATTEMPT_OUTCOMES = [
+  'success',
+  'invalid-credentials',
+  'unknown-user',
+  'throttled',
+  'locked',
+  'ip-blocked',
+  'second-factor-pending',
+  'password-change-pending',
+  'sso-link-pending',
+  'invalid-second-factor',
+  'inactive',
+] as const;
+export type LoginAttemptOutcome = (typeof LOGIN_ATTEMPT_OUTCOMES)[number];
+
+export interface ILoginAttempt extends Document {
+  email: string;
+  userId?: mongoose.Types.ObjectId;
+  ip?: string;
+  userAgent?: string;
+  success: boolean;
+  outcome: LoginAttemptOutcome;
+  createdAt: Date;
+}
+
+const loginAttemptSchema = new Schema(
+  {
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    success: {
+      type: Boolean,
+      required: true,
+    },
+    outcome: {
+      type: String,
+      enum: LOGIN_ATTEMPT_OUTCOMES,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+loginAttemptSchema.index({ ip: 1, createdAt: -1 });
+loginAttemptSchema.index({ email: 1, createdAt: -1 });
+loginAttemptSchema.index({ userId: 1, createdAt: -1 });
+// Keep roughly a semester of history for review
+loginAttemptSchema.index({ createdAt: 1 }, { expireAfterSeconds: 180 * 24 * 60 * 60 });
+
+export const LoginAttemptModel: Model<ILoginAttempt> = mongoose.model<ILoginAttempt>(
+  'LoginAttempt',
+  loginAttemptSchema
+);
@@ -0,0 +1,48 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// One pending single sign-on attempt, from the redirect to the provider until the callback
+export interface IOidcState extends Document {
+  stateHash: string;
+  bindingHash: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const oidcStateSchema = new Schema(
+  {
+    stateHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // Ties the callback to the browser that started the login, against login CSRF
+    bindingHash: {
+      type: String,
+      required: true,
+    },
+    nonce: {
+      type: String,
+      required: true,
+    },
+    codeVerifier: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+oidcStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OidcStateModel: Model<IOidcState> = mongoose.model<IOidcState>(
+  'OidcState',
+  oidcStateSchema
+);
@@ -0,0 +1,74 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
+
+export type ProfileChangeStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface IProfileChangeRequest extends Document {
+  student: mongoose.Types.ObjectId;
+  department?: mongoose.Types.ObjectId;
+  requestedBy: mongoose.Types.ObjectId | string;
+  // Proposed values and the values they replace, keyed by dotted path
+  changes: Record<string, unknown>;
+  previous: Record<string, unknown>;
+  status: ProfileChangeStatus;
+  reviewedBy?: mongoose.Types.ObjectId | string;
+  reviewedAt?: Date;
+  reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const profileChangeRequestSchema = new Schema(
+  {
+    student: {
+      type: Schema.Types.ObjectId,
+      ref: 'Student',
+      required: true,
+    },
+    // Copied from the student so department-scoped staff only see their own students
+    department: {
+      type: Schema.Types.ObjectId,
+      ref: 'Department',
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    changes: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    previous: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected', 'cancelled'],
+      default: 'pending',
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    reason: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+profileChangeRequestSchema.index({ student: 1, status: 1 });
+profileChangeRequestSchema.index({ department: 1, status: 1, createdAt: -1 });
+
+profileChangeRequestSchema.plugin(auditPlugin, { entity: 'ProfileChangeRequest' });
+
+export const ProfileChangeRequestModel: Model<IProfileChangeRequest> =
+  mongoose.model<IProfileChangeRequest>('ProfileChangeRequest', profileChangeRequestSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
 
 interface ScheduleItem {
   time: string;
@@ -160,4 +161,6 @@ projectEventSchema.pre('save', function (next) {
   next();
 });
 
+projectEventSchema.plugin(auditPlugin, { entity: 'ProjectEvent' });
+
 export const ProjectEventModel = mongoose.model<IProjectEvent>('ProjectEvent', projectEventSchema);
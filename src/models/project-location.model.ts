@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
 
 export interface IProjectLocation extends Document {
   locationId: string; // Example: A-12, B-08
@@ -82,4 +83,6 @@ projectLocationSchema.virtual('project', {
   justOne: true,
 });
 
+projectLocationSchema.plugin(auditPlugin, { entity: 'ProjectLocation' });
+
 export const ProjectLocationModel = mongoose.model<IProjectLocation>('ProjectLocation', projectLocationSchema);
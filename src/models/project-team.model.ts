@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
 
 interface TeamMember {
   userId: mongoose.Types.ObjectId;
@@ -113,4 +114,6 @@ projectTeamSchema.pre('save', function (next) {
   next();
 });
 
+projectTeamSchema.plugin(auditPlugin, { entity: 'ProjectTeam' });
+
 export const ProjectTeamModel = mongoose.model<IProjectTeam>('ProjectTeam', projectTeamSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
 
 export interface IProject extends Document {
   title: string;
@@ -185,4 +186,6 @@ projectSchema.index({ eventId: 1 });
 projectSchema.index({ 'deptEvaluation.completed': 1 });
 projectSchema.index({ 'centralEvaluation.completed': 1 });
 
+projectSchema.plugin(auditPlugin, { entity: 'Project' });
+
 export const ProjectModel = mongoose.model<IProject>('Project', projectSchema);
@@ -0,0 +1,68 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IRefreshToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  family: string; // All tokens rotated from the same login share a family
+  selectedRole: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: 'rotated' | 'logout' | 'reuse';
+  replacedByHash?: string;
+  createdByIp?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const refreshTokenSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    family: {
+      type: String,
+      required: true,
+    },
+    selectedRole: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: ['rotated', 'logout', 'reuse'],
+    },
+    replacedByHash: {
+      type: String,
+    },
+    createdByIp: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+refreshTokenSchema.index({ family: 1 });
+refreshTokenSchema.index({ userId: 1 });
+// Let MongoDB clean up tokens once they can no longer be used
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshTokenModel: Model<IRefreshToken> = mongoose.model<IRefreshToken>(
+  'RefreshToken',
+  refreshTokenSchema
+);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
 
 export interface IResult extends Document {
   st_id: string;
@@ -176,4 +177,6 @@ resultSchema.index({ branchName: 1, semester: 1 });
 resultSchema.index({ academicYear: 1 });
 resultSchema.index({ uploadBatch: 1 });
 
+resultSchema.plugin(auditPlugin, { entity: 'Result' });
+
 export const ResultModel = mongoose.model<IResult>('Result', resultSchema);
@@ -1,9 +1,16 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
+
+// Kept local so the model has no dependency on the permission utilities that query it
+const PERMISSION_PATTERN = /^(\*|[a-z-]+:(\*|[a-z-]+))$/;
 
 export interface IRole extends Document {
   name: string;
   description: string;
   permissions: string[];
+  scope: 'institute' | 'department';
+  requireTwoFactor: boolean;
+  builtInPermissions?: string[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -22,7 +29,27 @@ const roleSchema = new Schema({
   permissions: {
     type: [String],
     required: [true, 'Permissions are required'],
-    enum: ['create', 'read', 'update', 'delete']
+    validate: {
+      validator: (permissions: string[]) =>
+        permissions.every((permission) => PERMISSION_PATTERN.test(permission)),
+      message: 'Permissions must look like resource:action, resource:* or *'
+    }
+  },
+  // Department-scoped roles only see records of the user's own department
+  scope: {
+    type: String,
+    enum: ['institute', 'department'],
+    default: 'institute'
+  },
+  // Users holding this role must enroll in TOTP two-factor authentication
+  requireTwoFactor: {
+    type: Boolean,
+    default: false
+  },
+  // Built-in permissions the document was last synced with, to tell new ones from removed ones
+  builtInPermissions: {
+    type: [String],
+    default: undefined
   }
 }, {
   timestamps: true,
@@ -30,4 +57,6 @@ const roleSchema = new Schema({
   toObject: { virtuals: true }
 });
 
+roleSchema.plugin(auditPlugin, { entity: 'Role' });
+
 export const RoleModel = mongoose.model<IRole>('Role', roleSchema);
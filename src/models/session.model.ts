@@ -0,0 +1,90 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export type SessionEndReason =
+  | 'logout'
+  | 'reuse'
+  | 'role-switch'
+  | 'revoked'
+  | 'forced-logout'
+  | 'password-change';
+
+export interface ISession extends Document {
+  sid: string; // Matches the refresh token family and the sid claim in access tokens
+  userId: mongoose.Types.ObjectId;
+  selectedRole: string;
+  userAgent?: string;
+  device?: string;
+  ip?: string;
+  lastIp?: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  endedAt?: Date;
+  endedReason?: SessionEndReason;
+  endedBy?: mongoose.Types.ObjectId;
+  impersonatedBy?: mongoose.Types.ObjectId; // Set when an admin is viewing as this user
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema(
+  {
+    sid: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    selectedRole: {
+      type: String,
+      required: true,
+    },
+    userAgent: {
+      type: String,
+    },
+    device: {
+      type: String,
+    },
+    ip: {
+      type: String,
+    },
+    lastIp: {
+      type: String,
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    endedAt: {
+      type: Date,
+    },
+    endedReason: {
+      type: String,
+      enum: ['logout', 'reuse', 'role-switch', 'revoked', 'forced-logout', 'password-change'],
+    },
+    endedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    impersonatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+sessionSchema.index({ userId: 1, endedAt: 1, lastSeenAt: -1 });
+// Keep ended and expired sessions around for a month so users can see recent activity
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const SessionModel: Model<ISession> = mongoose.model<ISession>('Session', sessionSchema);
@@ -0,0 +1,67 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export const STUDENT_STATUSES = ['active', 'inactive', 'graduated', 'transferred', 'dropped'] as const;
+export type StudentStatus = (typeof STUDENT_STATUSES)[number];
+
+// One transition in a student's lifecycle; the history is append-only
+export interface IStudentStatusChange extends Document {
+  student: mongoose.Types.ObjectId;
+  // Copied from the student so per-department reports don't need a join
+  department?: mongoose.Types.ObjectId;
+  from: StudentStatus;
+  to: StudentStatus;
+  effectiveDate: Date;
+  reason?: string;
+  destinationInstitute?: string;
+  changedBy?: mongoose.Types.ObjectId | string;
+  createdAt: Date;
+}
+
+const studentStatusChangeSchema = new Schema(
+  {
+    student: {
+      type: Schema.Types.ObjectId,
+      ref: 'Student',
+      required: true,
+    },
+    department: {
+      type: Schema.Types.ObjectId,
+      ref: 'Department',
+    },
+    from: {
+      type: String,
+      enum: STUDENT_STATUSES,
+      required: true,
+    },
+    to: {
+      type: String,
+      enum: STUDENT_STATUSES,
+      required: true,
+    },
+    effectiveDate: {
+      type: Date,
+      required: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+    },
+    destinationInstitute: {
+      type: String,
+      trim: true,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+studentStatusChangeSchema.index({ student: 1, createdAt: -1 });
+studentStatusChangeSchema.index({ department: 1, to: 1, effectiveDate: -1 });
+
+export const StudentStatusChangeModel: Model<IStudentStatusChange> =
+  mongoose.model<IStudentStatusChange>('StudentStatusChange', studentStatusChangeSchema);
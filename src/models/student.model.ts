@@ -1,4 +1,6 @@
 import mongoose, { Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
+import { REQUIRED_PROFILE_FIELDS, isProfileComplete } from '../utils/student-profile';
 
 export interface Student {
   id: number;
@@ -36,10 +38,11 @@ const StudentSchema = new Schema({
   middleName: { type: String },
   lastName: { type: String },
   fullName: { type: String },
+  // Issued once the student has a department; sparse so records awaiting one don't collide
   enrollmentNo: {
     type: String,
-    required: true,
-    unique: true
+    unique: true,
+    sparse: true
   },
   personalEmail: {
     type: String,
@@ -48,10 +51,15 @@ const StudentSchema = new Schema({
   },
   institutionalEmail: {
     type: String,
-    required: true,
     unique: true,
+    sparse: true,
     trim: true
   },
+  // Where the enrollment number came from; portal-generated ones give way to GTU's in a merge
+  enrollmentSource: {
+    type: String,
+    enum: ['gtu', 'generated', 'manual']
+  },
   batch: {
     type: String,
     default: ''
@@ -230,4 +238,72 @@ const StudentSchema = new Schema({
   toObject: { virtuals: true }
 });
 
+// Completeness always follows the required-field rules, however the record is written
+StudentSchema.pre('save', function () {
+  this.isComplete = isProfileComplete(this);
+});
+
+// Writes to these paths, or to isComplete itself, mean completeness has to be worked out again
+const COMPLETENESS_ROOTS = new Set([
+  'isComplete',
+  ...REQUIRED_PROFILE_FIELDS.map((path) => path.split('.')[0])
+]);
+
+const touchesCompleteness = (update: unknown): boolean => {
+  if (!update) return false;
+  // Aggregation pipeline updates can write anything
+  if (Array.isArray(update)) return true;
+  return Object.entries(update as Record<string, unknown>).some(([key, value]) =>
+    (key.startsWith('$') ? Object.keys((value as Record<string, unknown>) || {}) : [key]).some(
+      (path) => COMPLETENESS_ROOTS.has(path.split('.')[0])
+    )
+  );
+};
+
+interface CompletenessQuery extends mongoose.Query<unknown, unknown> {
+  _completenessIds?: unknown[];
+}
+
+// Remember which records the write matches; the update itself may change what the filter finds
+const captureCompleteness = (many: boolean) =>
+  async function (this: CompletenessQuery) {
+    if (!touchesCompleteness(this.getUpdate())) return;
+    const query = this.model.find(this.getFilter()).select('_id').lean();
+    const docs = await (many ? query : query.limit(1));
+    this._completenessIds = docs.map((doc) => doc._id);
+  };
+
+StudentSchema.pre(['findOneAndUpdate', 'updateOne'], captureCompleteness(false));
+StudentSchema.pre('updateMany', captureCompleteness(true));
+
+StudentSchema.post(
+  ['findOneAndUpdate', 'updateOne', 'updateMany'],
+  async function (this: CompletenessQuery, result: unknown) {
+    const ids = this._completenessIds;
+    if (!ids) return;
+
+    // An upsert that matched nothing created the record instead
+    let filter: Record<string, unknown> = { _id: { $in: ids } };
+    if (ids.length === 0) {
+      if (!this.getOptions().upsert) return;
+      filter = this.getFilter();
+    }
+
+    const students = await this.model.find(filter);
+    for (const student of students) {
+      const complete = isProfileComplete(student);
+      if (student.isComplete === complete) continue;
+      await this.model.updateOne({ _id: student._id }, { $set: { isComplete: complete } });
+
+      // findOneAndUpdate has already read the record it hands back
+      const returned = result as { _id?: unknown; isComplete?: boolean } | null;
+      if (returned && String(returned._id) === String(student._id)) {
+        returned.isComplete = complete;
+      }
+    }
+  }
+);
+
+StudentSchema.plugin(auditPlugin, { entity: 'Student' });
+
 export const StudentModel = mongoose.model('Student', StudentSchema);
\ No newline at end of file
@@ -0,0 +1,70 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { auditPlugin } from '../utils/audit';
+
+export interface ISubject extends Document {
+  code: string;
+  name: string;
+  departmentId: mongoose.Types.ObjectId;
+  semester: number;
+  credits?: number;
+  // Which kinds of session are held for the subject
+  hasLecture: boolean;
+  hasLab: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const subjectSchema = new Schema(
+  {
+    code: {
+      type: String,
+      required: [true, 'Subject code is required'],
+      uppercase: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Subject name is required'],
+      trim: true,
+    },
+    departmentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Department',
+      required: [true, 'Department is required'],
+    },
+    semester: {
+      type: Number,
+      required: [true, 'Semester is required'],
+      min: 1,
+      max: 8,
+    },
+    credits: {
+      type: Number,
+      min: 0,
+    },
+    hasLecture: {
+      type: Boolean,
+      default: true,
+    },
+    hasLab: {
+      type: Boolean,
+      default: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// The same GTU subject code can be taught by more than one department
+subjectSchema.index({ code: 1, departmentId: 1 }, { unique: true });
+subjectSchema.index({ departmentId: 1, semester: 1 });
+
+subjectSchema.plugin(auditPlugin, { entity: 'Subject' });
+
+export const SubjectModel: Model<ISubject> = mongoose.model<ISubject>('Subject', subjectSchema);
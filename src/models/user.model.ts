@@ -1,15 +1,57 @@
 import mongoose, { Document, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { findUnknownRoles } from '../utils/permissions';
+import { auditPlugin } from '../utils/audit';
+import { AppError } from '../middleware/error.middleware';
+import {
+  checkPasswordStrength,
+  describePasswordProblems,
+  getPasswordPolicy,
+  hashPassword,
+  matchesAnyHash,
+} from '../utils/password-policy';
 
 export interface IUser extends Document {
   _id: string;
   name: string;
   email: string;
+  emailVerified?: boolean;
+  emailVerifiedAt?: Date;
+  emailVerificationSentAt?: Date;
   password: string;
   department?: mongoose.Types.ObjectId;
   roles: string[];
   selectedRole?: string;
+  accountType: 'user' | 'service';
+  description?: string;
+  status: 'active' | 'suspended' | 'deactivated';
+  statusReason?: string;
+  statusChangedAt?: Date;
+  statusChangedBy?: mongoose.Types.ObjectId | string;
+  passwordChangedAt?: Date;
+  passwordHistory: string[];
+  passwordChangeRequired?: boolean;
+  passwordResetToken?: string;
+  passwordResetExpires?: Date;
+  failedLoginAttempts: number;
+  lastFailedLoginAt?: Date;
+  lockUntil?: Date;
+  sso?: {
+    issuer: string;
+    subject: string;
+    linkedAt: Date;
+  };
+  twoFactor: {
+    enabled: boolean;
+    secret?: string;
+    pendingSecret?: string;
+    recoveryCodes: string[];
+    lastUsedStep?: number;
+    enabledAt?: Date;
+  };
   comparePassword(candidatePassword: string): Promise<boolean>;
+  createPasswordResetToken(expiresInMinutes?: number): string;
 }
 
 const userSchema = new mongoose.Schema<IUser>(
@@ -26,10 +68,19 @@ const userSchema = new mongoose.Schema<IUser>(
       lowercase: true,
       trim: true,
     },
+    // Only self-registered accounts start unverified; accounts from before this field count as verified
+    emailVerified: {
+      type: Boolean,
+    },
+    emailVerifiedAt: {
+      type: Date,
+    },
+    emailVerificationSentAt: {
+      type: Date,
+    },
     password: {
       type: String,
       required: [true, 'Please provide a password'],
-      minlength: 8,
       select: false,
     },
     department: {
@@ -37,16 +88,110 @@ const userSchema = new mongoose.Schema<IUser>(
       ref: 'Department',
       required: false,
     },
+    // Service accounts are used by scripts through API keys and can never log in
+    accountType: {
+      type: String,
+      enum: ['user', 'service'],
+      default: 'user',
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    // Suspended and deactivated accounts keep their records but cannot log in or use tokens
+    status: {
+      type: String,
+      enum: ['active', 'suspended', 'deactivated'],
+      default: 'active',
+    },
+    statusReason: {
+      type: String,
+      trim: true,
+    },
+    statusChangedAt: {
+      type: Date,
+    },
+    statusChangedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
     roles: {
       type: [String],
-      enum: ['student', 'faculty', 'hod', 'principal', 'admin', 'jury'],
       default: ['student'],
+      // Built-in roles plus any role an admin has defined in the Role collection
+      validate: {
+        validator: async (roles: string[]) => (await findUnknownRoles(roles)).length === 0,
+        message: 'One or more roles do not exist',
+      },
     },
     selectedRole: {
       type: String,
-      enum: ['student', 'faculty', 'hod', 'principal', 'admin', 'jury'],
       required: false,
     },
+    passwordChangedAt: {
+      type: Date,
+    },
+    // Hashes of earlier passwords, newest first, so they can't be reused
+    passwordHistory: {
+      type: [String],
+      select: false,
+    },
+    // Set for accounts created with a temporary password; cleared by the next password change
+    passwordChangeRequired: {
+      type: Boolean,
+    },
+    passwordResetToken: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false,
+    },
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+    },
+    lastFailedLoginAt: {
+      type: Date,
+    },
+    lockUntil: {
+      type: Date,
+    },
+    // Identity at the single sign-on provider, recorded on the first SSO login
+    sso: {
+      issuer: String,
+      subject: String,
+      linkedAt: Date,
+    },
+    twoFactor: {
+      enabled: {
+        type: Boolean,
+        default: false,
+      },
+      secret: {
+        type: String,
+        select: false,
+      },
+      // Secret handed out during enrollment, promoted once the first code is confirmed
+      pendingSecret: {
+        type: String,
+        select: false,
+      },
+      // Hashes of the unused recovery codes
+      recoveryCodes: {
+        type: [String],
+        select: false,
+      },
+      // Last accepted time step, so a code can't be replayed
+      lastUsedStep: {
+        type: Number,
+        select: false,
+      },
+      enabledAt: {
+        type: Date,
+      },
+    },
   },
   {
     timestamps: true,
@@ -59,16 +204,50 @@ const userSchema = new mongoose.Schema<IUser>(
 userSchema.pre('save', async function (next) {
   try {
     if (!this.isModified('password')) return next();
-    
-    // Generate salt and hash password in parallel
-    const SALT_ROUNDS = 10;
-    this.password = await bcrypt.hash(this.password, SALT_ROUNDS);
+
+    // Every way of setting a password goes through here, so the policy is enforced in one place
+    const problems = checkPasswordStrength(this.password, { name: this.name, email: this.email });
+    if (problems.length > 0) {
+      return next(new AppError(describePasswordProblems(problems), 400));
+    }
+
+    if (!this.isNew) {
+      const { historySize } = getPasswordPolicy();
+      const model = this.constructor as Model<IUser>;
+      const stored = await model.findById(this._id).select('+password +passwordHistory');
+      const previous = stored ? [stored.password, ...(stored.passwordHistory || [])] : [];
+
+      if (await matchesAnyHash(this.password, previous.slice(0, historySize + 1))) {
+        return next(
+          new AppError(
+            historySize > 0
+              ? `Password must not be your current password or one of your last ${historySize}`
+              : 'Password must not be your current password',
+            400
+          )
+        );
+      }
+      this.passwordHistory = previous.slice(0, historySize);
+    }
+
+    this.password = await hashPassword(this.password);
     next();
   } catch (error) {
     next(error as Error);
   }
 });
 
+// Record when the password changed and invalidate any outstanding reset token
+userSchema.pre('save', function (next) {
+  if (!this.isModified('password') || this.isNew) return next();
+
+  this.passwordChangedAt = new Date();
+  this.passwordChangeRequired = undefined;
+  this.passwordResetToken = undefined;
+  this.passwordResetExpires = undefined;
+  next();
+});
+
 // Set selected role if not set
 userSchema.pre('save', function (next) {
   if (!this.selectedRole && this.roles.length > 0) {
@@ -84,4 +263,30 @@ userSchema.methods.comparePassword = async function (
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Generate a single-use reset token; only its hash is stored
+userSchema.methods.createPasswordResetToken = function (expiresInMinutes?: number): string {
+  const resetToken = crypto.randomBytes(32).toString('hex');
+
+  this.passwordResetToken = crypto.createHash('sha256').update(resetToken).digest('hex');
+  expiresInMinutes =
+    expiresInMinutes || parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '') || 30;
+  this.passwordResetExpires = new Date(Date.now() + expiresInMinutes * 60 * 1000);
+
+  return resetToken;
+};
+
+userSchema.plugin(auditPlugin, {
+  entity: 'User',
+  ignore: [
+    'failedLoginAttempts',
+    'lastFailedLoginAt',
+    'lockUntil',
+    'passwordResetToken',
+    'passwordResetExpires',
+    'passwordHistory',
+    'twoFactor.lastUsedStep'
+  ],
+  redact: ['password', 'twoFactor.secret', 'twoFactor.pendingSecret', 'twoFactor.recoveryCodes']
+});
+
 export const UserModel: Model<IUser> = mongoose.model<IUser>('User', userSchema);
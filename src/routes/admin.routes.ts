@@ -6,9 +6,13 @@ import {
   getUser,
   updateUser,
   deleteUser,
+  updateUserStatus,
   importUsers,
   exportUsers,
-  assignRoles
+  assignRoles,
+  unlockUser,
+  getLoginAttempts,
+  resetTwoFactor
 } from '../controllers/admin.controller';
 
 import {
@@ -18,29 +22,57 @@ import {
   updateRole,
   deleteRole,
   importRoles,
-  exportRoles
+  exportRoles,
+  getPermissions
 } from '../controllers/role.controller';
-import { protect, restrictTo } from '../middleware/auth.middleware';
+import {
+  createInvitation,
+  getAllInvitations,
+  resendInvitation,
+  revokeInvitation
+} from '../controllers/invitation.controller';
+import { getUserSessions, forceLogoutUser } from '../controllers/session.controller';
+import { startImpersonation, getImpersonationLogs } from '../controllers/impersonation.controller';
+import { getAuditLogs, exportAuditLogs } from '../controllers/audit.controller';
+import { getSettings, updateSettings } from '../controllers/institute-settings.controller';
+import {
+  createServiceAccount,
+  getServiceAccounts,
+  deleteServiceAccount,
+  createApiKey,
+  getApiKeys,
+  rotateApiKey,
+  revokeApiKey,
+  getApiKeyUsage
+} from '../controllers/api-key.controller';
+import {
+  protect,
+  requirePermission,
+  denyWhileImpersonating,
+  denyApiKeys
+} from '../middleware/auth.middleware';
 
 const router = express.Router();
 const upload = multer({ storage: multer.memoryStorage() });
 
-// Protect all routes
-router.use(protect);
-router.use(restrictTo('admin'));
+// Protect all routes; administration is never available under impersonation
+router.use(protect, denyWhileImpersonating);
 
 // User Management
-router.post('/users', createUser);
-router.get('/users', getAllUsers);
-router.get('/users/export', exportUsers);
-router.get('/users/:id', getUser);
-router.patch('/users/:id', updateUser);
-router.delete('/users/:id', deleteUser);
+router.post('/users', requirePermission('users:create'), createUser);
+router.get('/users', requirePermission('users:read'), getAllUsers);
+router.get('/users/export', requirePermission('users:export'), exportUsers);
+router.get('/users/:id', requirePermission('users:read'), getUser);
+router.patch('/users/:id', requirePermission('users:update'), updateUser);
+router.delete('/users/:id', requirePermission('users:delete'), deleteUser);
+router.patch('/users/:id/status', requirePermission('users:deactivate'), updateUserStatus);
 
 // CSV Import/Export
-router.post('/users/import', upload.single('file'), importUsers);
+router.post('/users/import', requirePermission('users:import'), upload.single('file'), importUsers);
 
 // Role Management
+router.use(['/roles', '/permissions'], requirePermission('roles:manage'));
+router.get('/permissions', getPermissions);
 router.get('/roles', getAllRoles);
 router.post('/roles', createRole);
 router.get('/roles/export', exportRoles);
@@ -49,7 +81,57 @@ router.get('/roles/:id', getRole);
 router.patch('/roles/:id', updateRole);
 router.delete('/roles/:id', deleteRole);
 
+// Staff Invitations
+router.use('/invitations', requirePermission('invitations:manage'));
+router.get('/invitations', getAllInvitations);
+router.post('/invitations', createInvitation);
+router.post('/invitations/:id/resend', resendInvitation);
+router.delete('/invitations/:id', revokeInvitation);
+
 // User Role Assignment
-router.patch('/users/:id/roles', assignRoles);
+router.patch('/users/:id/roles', requirePermission('users:assign-roles'), assignRoles);
+
+// Login Security
+router.get('/login-attempts', requirePermission('login-attempts:read'), getLoginAttempts);
+router.get('/users/:id/login-attempts', requirePermission('login-attempts:read'), getLoginAttempts);
+router.patch('/users/:id/unlock', requirePermission('users:unlock'), unlockUser);
+router.patch('/users/:id/2fa/reset', requirePermission('users:reset-2fa'), resetTwoFactor);
+
+// Sessions
+router.get('/users/:id/sessions', requirePermission('sessions:manage'), getUserSessions);
+router.delete('/users/:id/sessions', requirePermission('sessions:manage'), forceLogoutUser);
+router.delete(
+  '/users/:id/sessions/:sessionId',
+  requirePermission('sessions:manage'),
+  forceLogoutUser
+);
+
+// Impersonation
+router.post('/users/:id/impersonate', requirePermission('users:impersonate'), startImpersonation);
+router.get(
+  '/impersonation-logs',
+  requirePermission('impersonation-logs:read'),
+  getImpersonationLogs
+);
+
+// Audit Log
+router.get('/audit', requirePermission('audit:read'), getAuditLogs);
+router.get('/audit/export', requirePermission('audit:export'), exportAuditLogs);
+
+// Institute Settings: enrollment number pattern and email domain
+router.get('/institute-settings', requirePermission('settings:manage'), getSettings);
+router.patch('/institute-settings', requirePermission('settings:manage'), updateSettings);
+
+// Service Accounts and API Keys; keys can't be used to mint more keys
+router.use(['/service-accounts', '/api-keys'], denyApiKeys, requirePermission('api-keys:manage'));
+router.get('/service-accounts', getServiceAccounts);
+router.post('/service-accounts', createServiceAccount);
+router.delete('/service-accounts/:id', deleteServiceAccount);
+router.get('/service-accounts/:id/api-keys', getApiKeys);
+router.post('/service-accounts/:id/api-keys', createApiKey);
+router.get('/api-keys', getApiKeys);
+router.post('/api-keys/:id/rotate', rotateApiKey);
+router.delete('/api-keys/:id', revokeApiKey);
+router.get('/api-keys/:id/usage', getApiKeyUsage);
 
 export default router;
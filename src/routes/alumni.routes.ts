@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import * as alumniController from '../controllers/alumni.controller';
+import { protect, requirePermission, scopeToDepartment } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Graduates report their outcomes through an emailed link, without logging in
+router.route('/self-service/:token')
+  .get(alumniController.getSelfServiceProfile)
+  .put(alumniController.submitSelfServiceProfile);
+
+router.use(protect);
+router.use(scopeToDepartment);
+
+router.route('/')
+  .get(requirePermission('alumni:read'), alumniController.getAlumni);
+
+router.route('/links')
+  .post(requirePermission('alumni:manage'), alumniController.sendAlumniLinks);
+
+router.route('/reports/cohorts')
+  .get(requirePermission('alumni:read'), alumniController.getCohortReport);
+
+router.route('/:studentId')
+  .patch(requirePermission('alumni:manage'), alumniController.updateAlumniProfile);
+
+export default router;
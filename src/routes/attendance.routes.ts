@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import * as attendanceController from '../controllers/attendance.controller';
+import { protect, requirePermission, scopeToDepartment } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(protect);
+router.use(scopeToDepartment);
+
+// Students' own attendance
+router.route('/my')
+  .get(attendanceController.getMyAttendance);
+
+// Reports
+router.route('/summary')
+  .get(requirePermission('attendance:read'), attendanceController.getAttendanceSummary);
+
+router.route('/detention')
+  .get(requirePermission('attendance:read'), attendanceController.getDetentionReport);
+
+router.route('/students/:studentId')
+  .get(requirePermission('attendance:read'), attendanceController.getStudentAttendance);
+
+// Sessions
+router.route('/sessions')
+  .get(requirePermission('attendance:read'), attendanceController.getSessions)
+  .post(requirePermission('attendance:mark'), attendanceController.createSession);
+
+router.route('/sessions/:id')
+  .get(requirePermission('attendance:read'), attendanceController.getSession)
+  .patch(requirePermission('attendance:mark'), attendanceController.updateSession)
+  .delete(requirePermission('attendance:mark'), attendanceController.deleteSession);
+
+export default router;
@@ -1,11 +1,58 @@
 import express from 'express';
-import { signup, login, switchRole } from '../controllers/auth.controller';
-import { protect } from '../middleware/auth.middleware';
+import {
+  signup,
+  login,
+  switchRole,
+  refresh,
+  logout,
+  forgotPassword,
+  resetPassword,
+  getInvitation,
+  acceptInvitation,
+  verifyEmail,
+  startOidcLogin,
+  completeOidcLogin,
+  linkOidcAccount,
+  changeExpiredPassword,
+  getPasswordRules
+} from '../controllers/auth.controller';
+import {
+  verifyTwoFactor,
+  setupTwoFactor,
+  enableTwoFactor
+} from '../controllers/two-factor.controller';
+import { endImpersonation } from '../controllers/impersonation.controller';
+import {
+  protect,
+  protectChallenge,
+  protectPasswordChallenge,
+  denyApiKeys,
+  denyWhileImpersonating
+} from '../middleware/auth.middleware';
 
 const router = express.Router();
 
 router.post('/signup', signup);
 router.post('/login', login);
-router.post('/switch-role', protect, switchRole);
+router.get('/oidc/authorize', startOidcLogin);
+router.post('/oidc/callback', completeOidcLogin);
+router.post('/oidc/link', linkOidcAccount);
+router.post('/refresh', refresh);
+router.post('/logout', logout);
+router.post('/forgot-password', forgotPassword);
+router.patch('/reset-password/:token', resetPassword);
+router.get('/password-policy', getPasswordRules);
+router.post('/verify-email/:token', verifyEmail);
+router.get('/invitations/:token', getInvitation);
+router.post('/invitations/:token/accept', acceptInvitation);
+
+// Second login step; these take the challenge token returned by /login
+router.post('/2fa/verify', protectChallenge, verifyTwoFactor);
+router.post('/2fa/setup', protectChallenge, setupTwoFactor);
+router.post('/2fa/enable', protectChallenge, enableTwoFactor);
+router.post('/password/change', protectPasswordChallenge, changeExpiredPassword);
+
+router.post('/switch-role', protect, denyApiKeys, denyWhileImpersonating, switchRole);
+router.post('/impersonation/end', protect, denyApiKeys, endImpersonation);
 
 export default router;
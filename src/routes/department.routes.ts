@@ -1,7 +1,7 @@
 import express from 'express';
 import multer from 'multer';
 import * as departmentController from '../controllers/department.controller';
-import { protect, restrictTo } from '../middleware/auth.middleware';
+import { protect, requirePermission } from '../middleware/auth.middleware';
 
 // Configure multer for memory storage
 const upload = multer({ storage: multer.memoryStorage() });
@@ -11,31 +11,32 @@ const router = express.Router();
 // Protect all routes after this middleware
 router.use(protect);
 
-// Restrict all routes to admin and principal
-router.use(restrictTo('admin', 'principal'));
-
 router
   .route('/')
-  .get(departmentController.getAllDepartments)
-  .post(departmentController.createDepartment);
+  .get(requirePermission('departments:read'), departmentController.getAllDepartments)
+  .post(requirePermission('departments:create'), departmentController.createDepartment);
 
 // CSV Import/Export routes
 router
   .route('/import')
-  .post(upload.single('file'), departmentController.importDepartments);
+  .post(
+    requirePermission('departments:import'),
+    upload.single('file'),
+    departmentController.importDepartments
+  );
 
 router
   .route('/export')
-  .get(departmentController.exportDepartments);
+  .get(requirePermission('departments:export'), departmentController.exportDepartments);
 
 router
   .route('/stats')
-  .get(departmentController.getDepartmentStats);
+  .get(requirePermission('departments:read'), departmentController.getDepartmentStats);
 
 router
   .route('/:id')
-  .get(departmentController.getDepartment)
-  .patch(departmentController.updateDepartment)
-  .delete(departmentController.deleteDepartment);
+  .get(requirePermission('departments:read'), departmentController.getDepartment)
+  .patch(requirePermission('departments:update'), departmentController.updateDepartment)
+  .delete(requirePermission('departments:delete'), departmentController.deleteDepartment);
 
 export default router;
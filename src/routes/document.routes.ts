@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import * as documentController from '../controllers/document.controller';
+import { denyApiKeys, protect, scopeToDepartment } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Public verification of printed certificates
+router.get('/verify/:code', documentController.verifyDocument);
+
+router.use(protect, denyApiKeys);
+router.use(scopeToDepartment);
+
+// Students' own requests
+router.route('/my')
+  .get(documentController.getMyDocumentRequests);
+
+router.route('/my/:id')
+  .delete(documentController.cancelDocumentRequest);
+
+// Review permissions depend on the stage the request is at, so they are checked per request
+router.route('/')
+  .get(documentController.getDocumentRequests)
+  .post(documentController.applyForDocument);
+
+router.route('/:id/approve')
+  .patch(documentController.approveDocumentRequest);
+
+router.route('/:id/reject')
+  .patch(documentController.rejectDocumentRequest);
+
+router.route('/:id/pdf')
+  .get(documentController.downloadDocument);
+
+export default router;
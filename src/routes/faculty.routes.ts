@@ -10,35 +10,33 @@ import {
   uploadFacultyCsv
 } from '../controllers/faculty.controller';
 import multer from 'multer';
-import { protect, restrictTo } from '../middleware/auth.middleware';
+import { protect, requirePermission, scopeToDepartment } from '../middleware/auth.middleware';
 
 const router = express.Router();
 
 // Protect all routes after this middleware
 router.use(protect);
-
-// Routes restricted to admin and principal
-router.use(restrictTo('admin', 'principal'));
+router.use(scopeToDepartment);
 
 // Configure multer for CSV upload
 const upload = multer();
 
-router.get('/export-csv', exportFacultyCsv);
-router.post('/upload-csv', upload.single('file'), uploadFacultyCsv);
+router.get('/export-csv', requirePermission('faculty:export'), exportFacultyCsv);
+router.post('/upload-csv', requirePermission('faculty:import'), upload.single('file'), uploadFacultyCsv);
 
 router
   .route('/')
-  .get(getAllFaculty)
-  .post(createFaculty);
+  .get(requirePermission('faculty:read'), getAllFaculty)
+  .post(requirePermission('faculty:create'), createFaculty);
 
 router
   .route('/:id')
-  .get(getFaculty)
-  .patch(updateFaculty)
-  .delete(deleteFaculty);
+  .get(requirePermission('faculty:read'), getFaculty)
+  .patch(requirePermission('faculty:update'), updateFaculty)
+  .delete(requirePermission('faculty:delete'), deleteFaculty);
 
 router
   .route('/department/:departmentId')
-  .get(getFacultyByDepartment);
+  .get(requirePermission('faculty:read'), getFacultyByDepartment);
 
 export default router;
@@ -4,7 +4,12 @@ import * as projectController from '../controllers/project.controller';
 import * as projectTeamController from '../controllers/project-team.controller';
 import * as projectEventController from '../controllers/project-event.controller';
 import * as projectLocationController from '../controllers/project-location.controller';
-import { protect, restrictTo } from '../middleware/auth.middleware';
+import {
+  protect,
+  requirePermission,
+  requireVerifiedEmail,
+  scopeToDepartment
+} from '../middleware/auth.middleware';
 
 const router = express.Router();
 const upload = multer({ storage: multer.memoryStorage() });
@@ -14,13 +19,14 @@ router.get('/events/active', projectEventController.getActiveEvents);
 
 // Protect all routes after this middleware
 router.use(protect);
+router.use(scopeToDepartment);
 
 /*
  * Project Routes
  */
 router.route('/')
   .get(projectController.getAllProjects)
-  .post(projectController.createProject);
+  .post(requireVerifiedEmail, projectController.createProject);
 
 router.route('/my-projects')
   .get(projectController.getMyProjects);
@@ -32,7 +38,7 @@ router.route('/export')
   .get(projectController.exportProjectsToCsv);
 
 router.route('/import')
-  .post(restrictTo('admin'), upload.single('file'), projectController.importProjectsFromCsv);
+  .post(requirePermission('projects:import'), upload.single('file'), projectController.importProjectsFromCsv);
 
 router.route('/statistics')
   .get(projectController.getProjectStatistics);
@@ -41,23 +47,23 @@ router.route('/categories')
   .get(projectController.getProjectCountsByCategory);
 
 router.route('/jury-assignments')
-  .get(restrictTo('jury'), projectController.getProjectsForJury);
+  .get(requirePermission('projects:evaluate'), projectController.getProjectsForJury);
 
 /*
  * Location Routes - Moved before parameterized routes
  */
 router.route('/locations')
   .get(projectLocationController.getAllLocations)
-  .post(restrictTo('admin'), projectLocationController.createLocation);
+  .post(requirePermission('project-locations:manage'), projectLocationController.createLocation);
 
 router.route('/locations/export')
   .get(projectLocationController.exportLocationsToCsv);
 
 router.route('/locations/import')
-  .post(restrictTo('admin'), upload.single('file'), projectLocationController.importLocationsFromCsv);
+  .post(requirePermission('project-locations:manage'), upload.single('file'), projectLocationController.importLocationsFromCsv);
 
 router.route('/locations/batch')
-  .post(restrictTo('admin'), projectLocationController.createLocationBatch);
+  .post(requirePermission('project-locations:manage'), projectLocationController.createLocationBatch);
 
 router.route('/locations/section/:section')
   .get(projectLocationController.getLocationsBySection);
@@ -70,46 +76,46 @@ router.route('/locations/event/:eventId')
 
 router.route('/locations/:id')
   .get(projectLocationController.getLocation)
-  .patch(restrictTo('admin'), projectLocationController.updateLocation)
-  .delete(restrictTo('admin'), projectLocationController.deleteLocation);
+  .patch(requirePermission('project-locations:manage'), projectLocationController.updateLocation)
+  .delete(requirePermission('project-locations:manage'), projectLocationController.deleteLocation);
 
 router.route('/locations/:id/assign')
-  .patch(restrictTo('admin'), projectLocationController.assignProjectToLocation);
+  .patch(requirePermission('project-locations:manage'), projectLocationController.assignProjectToLocation);
 
 router.route('/locations/:id/unassign')
-  .patch(restrictTo('admin'), projectLocationController.unassignProjectFromLocation);
+  .patch(requirePermission('project-locations:manage'), projectLocationController.unassignProjectFromLocation);
 
 /*
  * Event Routes
  */
 router.route('/events')
   .get(projectEventController.getAllEvents)
-  .post(restrictTo('admin'), projectEventController.createEvent);
+  .post(requirePermission('project-events:manage'), projectEventController.createEvent);
 
 router.route('/events/export')
   .get(projectEventController.exportEventsToCsv);
 
 router.route('/events/import')
-  .post(restrictTo('admin'), upload.single('file'), projectEventController.importEventsFromCsv);
+  .post(requirePermission('project-events:manage'), upload.single('file'), projectEventController.importEventsFromCsv);
 
 router.route('/events/:id')
   .get(projectEventController.getEvent)
-  .patch(restrictTo('admin'), projectEventController.updateEvent)
-  .delete(restrictTo('admin'), projectEventController.deleteEvent);
+  .patch(requirePermission('project-events:manage'), projectEventController.updateEvent)
+  .delete(requirePermission('project-events:manage'), projectEventController.deleteEvent);
 
 router.route('/events/:id/publish-results')
-  .patch(restrictTo('admin'), projectEventController.publishResults);
+  .patch(requirePermission('project-events:manage'), projectEventController.publishResults);
 
 router.route('/events/:id/schedule')
   .get(projectEventController.getEventSchedule)
-  .patch(restrictTo('admin'), projectEventController.updateEventSchedule);
+  .patch(requirePermission('project-events:manage'), projectEventController.updateEventSchedule);
 
 /*
  * Team Routes
  */
 router.route('/teams')
   .get(projectTeamController.getAllTeams)
-  .post(projectTeamController.createTeam);
+  .post(requireVerifiedEmail, projectTeamController.createTeam);
 
 router.route('/teams/my-teams')
   .get(projectTeamController.getMyTeams);
@@ -121,7 +127,7 @@ router.route('/teams/export')
   .get(projectTeamController.exportTeamsToCsv);
 
 router.route('/teams/import')
-  .post(restrictTo('admin'), upload.single('file'), projectTeamController.importTeamsFromCsv);
+  .post(requirePermission('project-teams:manage'), upload.single('file'), projectTeamController.importTeamsFromCsv);
 
 router.route('/teams/department/:departmentId')
   .get(projectTeamController.getTeamsByDepartment);
@@ -132,11 +138,11 @@ router.route('/teams/event/:eventId')
 router.route('/teams/:id')
   .get(projectTeamController.getTeam)
   .patch(projectTeamController.updateTeam)
-  .delete(restrictTo('admin'), projectTeamController.deleteTeam);
+  .delete(requirePermission('project-teams:manage'), projectTeamController.deleteTeam);
 
 router.route('/teams/:id/members')
   .get(projectTeamController.getTeamMembers)
-  .post(projectTeamController.addTeamMember);
+  .post(requireVerifiedEmail, projectTeamController.addTeamMember);
 
 router.route('/teams/:id/members/:userId')
   .delete(projectTeamController.removeTeamMember);
@@ -160,7 +166,7 @@ router.route('/event/:eventId/certificates')
   .get(projectController.generateProjectCertificates);
 
 router.route('/certificates/send')
-  .post(restrictTo('admin'), projectController.sendCertificateEmails);
+  .post(requirePermission('projects:certify'), projectController.sendCertificateEmails);
 
 router.route('/team/:teamId')
   .get(projectController.getProjectsByTeam);
@@ -168,15 +174,15 @@ router.route('/team/:teamId')
 router.route('/:id')
   .get(projectController.getProject)
   .patch(projectController.updateProject)
-  .delete(restrictTo('admin'), projectController.deleteProject);
+  .delete(requirePermission('projects:delete'), projectController.deleteProject);
 
 router.route('/:id/details')
   .get(projectController.getProjectWithDetails);
 
 router.route('/:id/department-evaluation')
-  .post(restrictTo('jury'), projectController.evaluateProjectByDepartment);
+  .post(requirePermission('projects:evaluate'), projectController.evaluateProjectByDepartment);
 
 router.route('/:id/central-evaluation')
-  .post(restrictTo('jury'), projectController.evaluateProjectByCentral);
+  .post(requirePermission('projects:evaluate'), projectController.evaluateProjectByCentral);
 
 export default router;
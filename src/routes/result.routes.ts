@@ -1,38 +1,45 @@
 import { Router } from 'express';
 import * as resultController from '../controllers/result.controller';
 import multer from 'multer';
-import { protect } from '../middleware/auth.middleware';
+import { protect, requirePermission, scopeToDepartment } from '../middleware/auth.middleware';
 
 const router = Router();
 const upload = multer({ storage: multer.memoryStorage() });
 
 // Protect all routes
 router.use(protect);
+router.use(scopeToDepartment);
 
 router.route('/')
-  .get(resultController.getAllResults);
+  .get(requirePermission('results:read'), resultController.getAllResults);
 
 router.route('/import')
-  .post(upload.single('file'), resultController.importResults);
+  .post(requirePermission('results:import'), upload.single('file'), resultController.importResults);
 
 router.route('/export')
-  .get(resultController.exportResults);
+  .get(requirePermission('results:export'), resultController.exportResults);
 
 router.route('/analysis')
-  .get(resultController.getBranchAnalysis);
+  .get(requirePermission('results:read'), resultController.getBranchAnalysis);
+
+router.route('/transcripts')
+  .get(requirePermission('results:export'), resultController.downloadBatchTranscripts);
 
 router.route('/batches')
-  .get(resultController.getUploadBatches);
+  .get(requirePermission('results:read'), resultController.getUploadBatches);
 
 router.route('/batch/:batchId')
-  .delete(resultController.deleteResultsByBatch);
+  .delete(requirePermission('results:delete'), resultController.deleteResultsByBatch);
 
-// Update this route to use enrollmentNo
+// results:read, or the student's own record; checked in the controller
 router.route('/student/:enrollmentNo')
   .get(resultController.getStudentResults);
 
+router.route('/student/:enrollmentNo/transcript')
+  .get(resultController.downloadTranscript);
+
 router.route('/:id')
-  .get(resultController.getResult)
-  .delete(resultController.deleteResult);
+  .get(requirePermission('results:read'), resultController.getResult)
+  .delete(requirePermission('results:delete'), resultController.deleteResult);
 
 export default router;
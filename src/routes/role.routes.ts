@@ -9,14 +9,14 @@ import {
   importRoles,
   exportRoles
 } from '../controllers/role.controller';
-import { protect, restrictTo } from '../middleware/auth.middleware';
+import { protect, requirePermission, denyWhileImpersonating } from '../middleware/auth.middleware';
 
 const router = express.Router();
 const upload = multer({ storage: multer.memoryStorage() });
 
 // Protect all routes after this middleware
-router.use(protect);
-router.use(restrictTo('admin'));
+router.use(protect, denyWhileImpersonating);
+router.use(requirePermission('roles:manage'));
 
 router.route('/')
   .get(getAllRoles)
@@ -1,29 +1,88 @@
 import { Router } from 'express';
 import multer from 'multer';
 import * as studentController from '../controllers/student.controller';
-import { protect } from '../middleware/auth.middleware';
+import * as profileChangeController from '../controllers/profile-change.controller';
+import * as studentDuplicateController from '../controllers/student-duplicate.controller';
+import * as studentStatusController from '../controllers/student-status.controller';
+import {
+  denyApiKeys,
+  protect,
+  requirePermission,
+  scopeToDepartment
+} from '../middleware/auth.middleware';
 
 const router = Router();
 const upload = multer({ storage: multer.memoryStorage() });
 
 router.use(protect);
+router.use(scopeToDepartment);
 
 router.route('/')
-  .get(studentController.getAllStudents)
-  .post(studentController.createStudent);
+  .get(requirePermission('students:read'), studentController.getAllStudents)
+  .post(requirePermission('students:create'), studentController.createStudent);
 
 router.route('/sync')
-  .post(studentController.syncStudentUsers);
+  .post(requirePermission('students:sync'), studentController.syncStudentUsers);
+
+// Duplicate detection and merging
+router.route('/duplicates')
+  .get(requirePermission('students:merge'), studentDuplicateController.getDuplicateStudents);
+
+router.route('/duplicates/merge')
+  .post(requirePermission('students:merge'), studentDuplicateController.mergeDuplicateStudents);
+
+// Students' own profile and change requests
+router.use('/me', denyApiKeys);
+
+router.route('/me')
+  .get(profileChangeController.getMyProfile);
+
+router.route('/me/profile-changes')
+  .get(profileChangeController.getMyProfileChanges)
+  .post(profileChangeController.submitProfileChange);
+
+router.route('/me/profile-changes/:requestId')
+  .delete(profileChangeController.cancelProfileChange);
+
+// Staff review of profile change requests
+router.route('/profile-changes')
+  .get(requirePermission('students:update'), profileChangeController.getProfileChangeRequests);
+
+router.route('/profile-changes/:requestId/approve')
+  .patch(requirePermission('students:update'), profileChangeController.approveProfileChange);
+
+router.route('/profile-changes/:requestId/reject')
+  .patch(requirePermission('students:update'), profileChangeController.rejectProfileChange);
+
+router.route('/reconcile-semesters')
+  .post(requirePermission('students:sync'), studentController.reconcileStudentSemesters);
 
 router.route('/export-csv')
-  .get(studentController.exportStudentsCsv);
+  .get(requirePermission('students:export'), studentController.exportStudentsCsv);
 
 router.route('/upload-csv')
-  .post(upload.single('file'), studentController.importGTUStudents);
+  .post(requirePermission('students:import'), upload.single('file'), studentController.importGTUStudents);
+
+// Dry run first, then commit the previewed import by its token
+router.route('/upload-csv/preview')
+  .post(requirePermission('students:import'), upload.single('file'), studentController.previewGTUStudentImport);
+
+router.route('/upload-csv/commit')
+  .post(requirePermission('students:import'), studentController.commitGTUStudentImport);
+
+// Lifecycle status changes and their history
+router.route('/status-summary')
+  .get(requirePermission('students:read'), studentStatusController.getStatusSummary);
+
+router.route('/:id/status')
+  .patch(requirePermission('students:update'), studentStatusController.changeStatus);
+
+router.route('/:id/status-history')
+  .get(requirePermission('students:read'), studentStatusController.getStatusHistory);
 
 router.route('/:id')
-  .get(studentController.getStudent)
-  .patch(studentController.updateStudent)
-  .delete(studentController.deleteStudent);
+  .get(requirePermission('students:read'), studentController.getStudent)
+  .patch(requirePermission('students:update'), studentController.updateStudent)
+  .delete(requirePermission('students:delete'), studentController.deleteStudent);
 
 export default router;
\ No newline at end of file
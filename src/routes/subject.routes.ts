@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import * as subjectController from '../controllers/subject.controller';
+import { protect, requirePermission, scopeToDepartment } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(protect);
+router.use(scopeToDepartment);
+
+router.route('/')
+  .get(requirePermission('subjects:read'), subjectController.getAllSubjects)
+  .post(requirePermission('subjects:manage'), subjectController.createSubject);
+
+router.route('/:id')
+  .get(requirePermission('subjects:read'), subjectController.getSubject)
+  .patch(requirePermission('subjects:manage'), subjectController.updateSubject)
+  .delete(requirePermission('subjects:manage'), subjectController.deleteSubject);
+
+export default router;
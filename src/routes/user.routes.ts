@@ -1,13 +1,43 @@
 import express from 'express';
-import { getMe, updateMe } from '../controllers/user.controller';
-import { protect } from '../middleware/auth.middleware';
+import {
+  getMe,
+  updateMe,
+  updatePassword,
+  resendVerificationEmail
+} from '../controllers/user.controller';
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes
+} from '../controllers/two-factor.controller';
+import {
+  getMySessions,
+  revokeMySession,
+  revokeAllMySessions
+} from '../controllers/session.controller';
+import { protect, denyApiKeys, denyWhileImpersonating } from '../middleware/auth.middleware';
 
 const router = express.Router();
 
-// Protect all routes after this middleware
-router.use(protect);
+// Protect all routes after this middleware; these are for people, not API keys
+router.use(protect, denyApiKeys);
 
 router.get('/me', getMe);
 router.patch('/updateMe', updateMe);
+router.patch('/updatePassword', denyWhileImpersonating, updatePassword);
+router.post('/verify-email/resend', resendVerificationEmail);
+
+// Active sessions
+router.get('/sessions', getMySessions);
+router.delete('/sessions', denyWhileImpersonating, revokeAllMySessions);
+router.delete('/sessions/:id', denyWhileImpersonating, revokeMySession);
+
+// Two-factor authentication
+router.use('/2fa', denyWhileImpersonating);
+router.post('/2fa/setup', setupTwoFactor);
+router.post('/2fa/enable', enableTwoFactor);
+router.post('/2fa/disable', disableTwoFactor);
+router.post('/2fa/recovery-codes', regenerateRecoveryCodes);
 
 export default router;
@@ -1,6 +1,7 @@
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import { UserModel } from '../models/user.model';
+import { generateTemporaryPassword } from '../utils/password-policy';
 
 // Load environment variables
 dotenv.config();
@@ -13,16 +14,21 @@ async function createAdmin() {
     await mongoose.connect(MONGODB_URI);
     console.log('Connected to MongoDB');
 
-    // Create admin user
+    // Create admin user; without ADMIN_PASSWORD a temporary one is generated and printed once
+    const password = process.env.ADMIN_PASSWORD || generateTemporaryPassword();
     const adminUser = await UserModel.create({
       name: 'Admin',
       email: 'admin@gppalanpur.in',
-      password: 'Admin@123', // This will be hashed automatically by the model
+      password, // This will be hashed automatically by the model
+      passwordChangeRequired: !process.env.ADMIN_PASSWORD,
       roles: ['admin'],
       selectedRole: 'admin'
     });
 
-    console.log('Admin user created successfully:', adminUser);
+    console.log('Admin user created successfully:', adminUser.email);
+    if (!process.env.ADMIN_PASSWORD) {
+      console.log(`Temporary password (change it at first login): ${password}`);
+    }
     process.exit(0);
   } catch (error) {
     console.error('Error creating admin user:', error);
@@ -17,7 +17,7 @@ async function createTestUser() {
     const testUser = await UserModel.create({
       name: 'Jane Smith',
       email: 'jane.smith@gppalanpur.in',
-      password: 'Test@123',
+      password: 'Sample-Pass-42',
       department: 'Computer Engineering',
       roles: ['student', 'jury'], // This user can switch between student and jury roles
       selectedRole: 'student'
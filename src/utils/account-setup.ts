@@ -0,0 +1,29 @@
+import { IUser } from '../models/user.model';
+import { queueEmail } from './mailer';
+
+/**
+ * Email a new account a link to choose its own password. The link is a password reset
+ * token with a longer lifetime, so the generated password never has to be shown to anyone.
+ */
+export const sendAccountSetupEmail = async (user: IUser): Promise<void> => {
+  const expiresInHours = parseInt(process.env.ACCOUNT_SETUP_EXPIRES_HOURS || '') || 72;
+  const resetToken = user.createPasswordResetToken(expiresInHours * 60);
+  await user.save({ validateBeforeSave: false });
+
+  const clientUrl = process.env.CLIENT_URL || 'http://localhost:3000';
+  const setupURL = `${clientUrl}/reset-password/${resetToken}`;
+
+  await queueEmail(
+    {
+      to: user.email,
+      subject: 'Set up your GPP Portal account',
+      text:
+        `Hello ${user.name},\n\n` +
+        'An account has been created for you on the GPP Portal. ' +
+        `Choose your password using the link below within ${expiresInHours} hours.\n\n` +
+        `${setupURL}\n\n` +
+        'If the link has expired, use "Forgot password" on the login page to get a new one.'
+    },
+    'account-setup'
+  );
+};
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { ApiKeyModel, IApiKey } from '../models/api-key.model';
+import { ApiKeyUsageModel } from '../models/api-key-usage.model';
+import { hashToken } from './token.utils';
+
+// Keys look like gpp_<prefix>_<secret>; the prefix finds the record, the secret is only stored hashed
+const KEY_PATTERN = /^gpp_([a-f0-9]{12})_([A-Za-z0-9_-]{43})$/;
+
+export const generateApiKey = (): { key: string; prefix: string; keyHash: string } => {
+  const prefix = crypto.randomBytes(6).toString('hex');
+  const secret = crypto.randomBytes(32).toString('base64url');
+  const key = `gpp_${prefix}_${secret}`;
+  return { key, prefix, keyHash: hashToken(key) };
+};
+
+// Returns the key record if the presented key is genuine, unrevoked and unexpired
+export const authenticateApiKey = async (presented: string): Promise<IApiKey | null> => {
+  const match = KEY_PATTERN.exec(presented.trim());
+  if (!match) return null;
+
+  const apiKey = await ApiKeyModel.findOne({ prefix: match[1] }).select('+keyHash');
+  if (!apiKey) return null;
+
+  const expected = Buffer.from(apiKey.keyHash);
+  const actual = Buffer.from(hashToken(presented.trim()));
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  if (apiKey.revokedAt) return null;
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) return null;
+
+  return apiKey;
+};
+
+// Bump the key's totals now and log the request once its outcome is known
+export const recordApiKeyUsage = async (
+  apiKey: IApiKey,
+  req: Request,
+  res: Response
+): Promise<void> => {
+  await ApiKeyModel.updateOne(
+    { _id: apiKey._id },
+    { $inc: { usageCount: 1 }, $set: { lastUsedAt: new Date(), lastUsedIp: req.ip } }
+  );
+
+  res.on('finish', () => {
+    ApiKeyUsageModel.create({
+      apiKey: apiKey._id,
+      method: req.method,
+      path: req.originalUrl,
+      statusCode: res.statusCode,
+      ip: req.ip
+    }).catch((error) => console.error('Failed to record API key usage:', error));
+  });
+};
@@ -1,9 +1,2 @@
-import { Request, Response, NextFunction } from 'express';
-
-type AsyncRequestHandler = (req: Request, res: Response, next: NextFunction) => Promise<any>;
-
-export const catchAsync = (fn: AsyncRequestHandler) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    fn(req, res, next).catch(next);
-  };
-};
+// Kept for the controllers that import it from here; the API-key guard lives in catchAsync
+export { catchAsync } from './catchAsync';
@@ -0,0 +1,176 @@
+import mongoose from 'mongoose';
+import { AttendanceSessionModel, SessionType } from '../models/attendance-session.model';
+import { StudentModel } from '../models/student.model';
+import { SubjectModel } from '../models/subject.model';
+
+const DEFAULT_DETENTION_THRESHOLD = 75;
+
+export interface AttendanceFilter {
+  departmentId?: string;
+  semester?: number;
+  batch?: string;
+  subjectId?: string;
+  type?: SessionType;
+  student?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AttendanceCount {
+  present: number;
+  total: number;
+  percentage: number;
+}
+
+export interface SubjectAttendance extends AttendanceCount {
+  subjectId: string;
+  code?: string;
+  name?: string;
+  lecture?: AttendanceCount;
+  lab?: AttendanceCount;
+}
+
+export interface StudentAttendance {
+  studentId: string;
+  enrollmentNo?: string;
+  name?: string;
+  batch?: string;
+  semester?: number;
+  subjects: SubjectAttendance[];
+  overall: AttendanceCount;
+}
+
+// Percentage below which a student is put on the detention list, 75 as GTU requires by default
+export const getDetentionThreshold = (): number => {
+  const value = parseFloat(process.env.ATTENDANCE_DETENTION_THRESHOLD || '');
+  return value >= 0 && value <= 100 ? value : DEFAULT_DETENTION_THRESHOLD;
+};
+
+const toCount = (present: number, total: number): AttendanceCount => ({
+  present,
+  total,
+  percentage: total === 0 ? 0 : Math.round((present / total) * 10000) / 100
+});
+
+const buildSessionMatch = (filter: AttendanceFilter): Record<string, unknown> => {
+  const match: Record<string, unknown> = {};
+  if (filter.departmentId) match.departmentId = new mongoose.Types.ObjectId(filter.departmentId);
+  if (filter.semester) match.semester = filter.semester;
+  if (filter.batch) match.batch = filter.batch;
+  if (filter.subjectId) match.subjectId = new mongoose.Types.ObjectId(filter.subjectId);
+  if (filter.type) match.type = filter.type;
+  if (filter.student) match['records.student'] = new mongoose.Types.ObjectId(filter.student);
+  if (filter.from || filter.to) {
+    match.date = {
+      ...(filter.from && { $gte: filter.from }),
+      ...(filter.to && { $lte: filter.to })
+    };
+  }
+  return match;
+};
+
+/**
+ * Present and total session counts per student and subject, split into lectures and labs.
+ * Students only count sessions they were on the register for, so lab groups don't dilute them.
+ */
+export const summarizeAttendance = async (
+  filter: AttendanceFilter
+): Promise<StudentAttendance[]> => {
+  const pipeline: mongoose.PipelineStage[] = [
+    { $match: buildSessionMatch(filter) },
+    { $unwind: '$records' }
+  ];
+  if (filter.student) {
+    pipeline.push({ $match: { 'records.student': new mongoose.Types.ObjectId(filter.student) } });
+  }
+  pipeline.push({
+    $group: {
+      _id: { student: '$records.student', subject: '$subjectId', type: '$type' },
+      total: { $sum: 1 },
+      present: { $sum: { $cond: [{ $eq: ['$records.status', 'present'] }, 1, 0] } }
+    }
+  });
+
+  const counts: {
+    _id: { student: mongoose.Types.ObjectId; subject: mongoose.Types.ObjectId; type: SessionType };
+    total: number;
+    present: number;
+  }[] = await AttendanceSessionModel.aggregate(pipeline);
+
+  const studentIds = [...new Set(counts.map((count) => String(count._id.student)))];
+  const subjectIds = [...new Set(counts.map((count) => String(count._id.subject)))];
+  const [students, subjects] = await Promise.all([
+    StudentModel.find({ _id: { $in: studentIds } })
+      .select('enrollmentNo fullName firstName lastName batch semester')
+      .lean(),
+    SubjectModel.find({ _id: { $in: subjectIds } }).select('code name').lean()
+  ]);
+  const studentsById = new Map(students.map((student) => [String(student._id), student]));
+  const subjectsById = new Map(subjects.map((subject) => [String(subject._id), subject]));
+
+  // student -> subject -> session type -> counts
+  const grouped = new Map<string, Map<string, Partial<Record<SessionType, AttendanceCount>>>>();
+  for (const { _id, total, present } of counts) {
+    const bySubject = grouped.get(String(_id.student)) || new Map();
+    const byType = bySubject.get(String(_id.subject)) || {};
+    byType[_id.type] = toCount(present, total);
+    bySubject.set(String(_id.subject), byType);
+    grouped.set(String(_id.student), bySubject);
+  }
+
+  const summaries: StudentAttendance[] = [];
+  for (const [studentId, bySubject] of grouped) {
+    const student = studentsById.get(studentId);
+    let present = 0;
+    let total = 0;
+
+    const subjectRows: SubjectAttendance[] = [];
+    for (const [subjectId, byType] of bySubject) {
+      const subject = subjectsById.get(subjectId);
+      const subjectPresent = (byType.lecture?.present || 0) + (byType.lab?.present || 0);
+      const subjectTotal = (byType.lecture?.total || 0) + (byType.lab?.total || 0);
+      present += subjectPresent;
+      total += subjectTotal;
+
+      subjectRows.push({
+        subjectId,
+        code: subject?.code,
+        name: subject?.name,
+        ...byType,
+        ...toCount(subjectPresent, subjectTotal)
+      });
+    }
+
+    summaries.push({
+      studentId,
+      enrollmentNo: student?.enrollmentNo,
+      name:
+        student?.fullName ||
+        [student?.firstName, student?.lastName].filter(Boolean).join(' ') ||
+        undefined,
+      batch: student?.batch,
+      semester: student?.semester,
+      subjects: subjectRows.sort((a, b) => (a.code || '').localeCompare(b.code || '')),
+      overall: toCount(present, total)
+    });
+  }
+
+  return summaries.sort((a, b) => (a.enrollmentNo || '').localeCompare(b.enrollmentNo || ''));
+};
+
+/**
+ * Students whose attendance in any subject, or overall, is below the threshold,
+ * along with the subjects they fall short in.
+ */
+export const getDetentionList = async (filter: AttendanceFilter, threshold: number) => {
+  const summaries = await summarizeAttendance(filter);
+
+  return summaries
+    .map((summary) => ({
+      ...summary,
+      shortSubjects: summary.subjects.filter((subject) => subject.percentage < threshold)
+    }))
+    .filter(
+      (summary) => summary.shortSubjects.length > 0 || summary.overall.percentage < threshold
+    );
+};
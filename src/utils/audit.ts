@@ -0,0 +1,345 @@
+import { AsyncLocalStorage, AsyncResource } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+import mongoose, { Schema } from 'mongoose';
+import { IUser } from '../models/user.model';
+import { AuditAction, AuditLogModel } from '../models/audit-log.model';
+
+// Who is making the change; filled in per request so model hooks can attribute writes
+export interface AuditContext {
+  actor?: mongoose.Types.ObjectId;
+  actorEmail?: string;
+  role?: string;
+  impersonator?: mongoose.Types.ObjectId;
+  method?: string;
+  path?: string;
+  ip?: string;
+}
+
+export interface AuditOptions {
+  entity: string;
+  // Paths left out of the log entirely, e.g. counters bumped on every login
+  ignore?: string[];
+  // Paths whose changes are logged without their values
+  redact?: string[];
+}
+
+// The documents a query write matched, read before it ran
+interface AuditedQuery extends mongoose.Query<unknown, unknown> {
+  _auditBefore?: Record<string, unknown>[];
+  // The paths an updateMany writes, when only those were loaded
+  _auditRoots?: string[];
+  // Set when a bulk write matched too many records to snapshot one by one
+  _auditBulk?: boolean;
+}
+
+const storage = new AsyncLocalStorage<AuditContext>();
+const ALWAYS_IGNORED = ['_id', '__v', 'createdAt', 'updatedAt'];
+const REDACTED = '[redacted]';
+// Past this many matches, updateMany and deleteMany are logged as one summary entry
+const BULK_AUDIT_LIMIT = parseInt(process.env.AUDIT_BULK_LIMIT || '') || 1000;
+
+export const getAuditContext = (): AuditContext | undefined => storage.getStore();
+
+// Runs the rest of the request inside its own context; protect adds the actor later on
+export const auditRequestContext = (req: Request, _res: Response, next: NextFunction): void => {
+  storage.run({ method: req.method, path: req.originalUrl, ip: req.ip }, () => {
+    // Upload parsers resume from the request stream's events, which would otherwise lose the context
+    req.emit = AsyncResource.bind(req.emit.bind(req));
+    next();
+  });
+};
+
+export const setAuditActor = (user: IUser, role?: string, impersonator?: IUser): void => {
+  const context = storage.getStore();
+  if (!context) return;
+
+  context.actor = new mongoose.Types.ObjectId(user._id.toString());
+  context.actorEmail = user.email;
+  context.role = role;
+  context.impersonator = impersonator
+    ? new mongoose.Types.ObjectId(impersonator._id.toString())
+    : undefined;
+};
+
+// Explicit context for scripts and jobs that write outside a request
+export const runWithAuditContext = <T>(context: AuditContext, fn: () => T): T =>
+  storage.run(context, fn);
+
+const matchesPath = (path: string, candidates: string[]): boolean =>
+  candidates.some((candidate) => path === candidate || path.startsWith(`${candidate}.`));
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && Object.getPrototypeOf(value) === Object.prototype;
+
+// Nested objects become dotted paths so a change to one sub-field doesn't log the whole object
+const flatten = (
+  value: Record<string, unknown>,
+  prefix = '',
+  result: Record<string, unknown> = {}
+): Record<string, unknown> => {
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      flatten(child, path, result);
+    } else {
+      result[path] = child;
+    }
+  }
+  return result;
+};
+
+// Top-level paths an update writes; undefined for pipeline updates, which can write anything
+const updatedRoots = (update: unknown): string[] | undefined => {
+  if (!update || Array.isArray(update)) return undefined;
+  const paths = Object.entries(update as Record<string, unknown>).flatMap(([key, value]) =>
+    key.startsWith('$') ? Object.keys((value as Record<string, unknown>) || {}) : [key]
+  );
+  return [...new Set(paths.map((path) => path.split('.')[0]))];
+};
+
+const serialize = (value: unknown): unknown =>
+  value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+const snapshot = (
+  doc: Record<string, unknown> | null | undefined,
+  options: AuditOptions
+): Record<string, unknown> => {
+  if (!doc) return {};
+  const ignored = [...ALWAYS_IGNORED, ...(options.ignore || [])];
+  const flat = flatten(doc);
+  const result: Record<string, unknown> = {};
+
+  for (const [path, value] of Object.entries(flat)) {
+    if (matchesPath(path, ignored)) continue;
+    result[path] = matchesPath(path, options.redact || []) ? REDACTED : serialize(value);
+  }
+  return result;
+};
+
+const diff = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  options: AuditOptions,
+  onlyPaths?: (path: string) => boolean
+) => {
+  const changedFields: string[] = [];
+  const beforeChanges: Record<string, unknown> = {};
+  const afterChanges: Record<string, unknown> = {};
+
+  for (const path of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (onlyPaths && !onlyPaths(path)) continue;
+    const redacted = matchesPath(path, options.redact || []);
+    if (!redacted && JSON.stringify(before[path]) === JSON.stringify(after[path])) continue;
+
+    changedFields.push(path);
+    beforeChanges[path] = before[path];
+    afterChanges[path] = after[path];
+  }
+
+  return { changedFields, before: beforeChanges, after: afterChanges };
+};
+
+const record = async (
+  action: AuditAction,
+  options: AuditOptions,
+  entityId: unknown,
+  before?: Record<string, unknown>,
+  after?: Record<string, unknown>,
+  changedFields: string[] = []
+): Promise<void> => {
+  const context = storage.getStore() || {};
+
+  try {
+    await AuditLogModel.create({
+      ...context,
+      action,
+      entity: options.entity,
+      entityId: String(entityId),
+      before,
+      after,
+      changedFields
+    });
+  } catch (error) {
+    // Never fail the user's write because the audit entry couldn't be stored
+    console.error('Failed to record audit log:', error);
+  }
+};
+
+/**
+ * Records creates, updates and deletes on a schema, whether they happen through document
+ * saves or through query helpers such as findByIdAndUpdate and deleteMany.
+ */
+export const auditPlugin = (schema: Schema, options: AuditOptions): void => {
+  // select: false paths (passwords, secrets) are loaded too so their changes are noticed
+  const hiddenPaths = Object.keys(schema.paths)
+    .filter((path) => schema.paths[path].options.select === false)
+    .map((path) => `+${path}`)
+    .join(' ');
+
+  const loadSnapshots = async (
+    model: mongoose.Model<any>,
+    filter: Record<string, unknown>,
+    projection = hiddenPaths
+  ) => {
+    const docs = await model.find(filter).select(projection).lean();
+    return docs as Record<string, unknown>[];
+  };
+
+  schema.pre('save', async function () {
+    this.$locals.auditIsNew = this.isNew;
+    this.$locals.auditModified = this.directModifiedPaths();
+    if (!this.isNew) {
+      const model = this.constructor as mongoose.Model<any>;
+      const [before] = await loadSnapshots(model, { _id: this._id });
+      this.$locals.auditBefore = before;
+    }
+  });
+
+  schema.post('save', async function () {
+    const after = snapshot(this.toObject({ depopulate: true, virtuals: false }), options);
+
+    if (this.$locals.auditIsNew) {
+      await record('create', options, this._id, undefined, after, Object.keys(after));
+      return;
+    }
+
+    // Only paths this save touched; unselected fields would otherwise look removed
+    const modified = this.$locals.auditModified as string[];
+    const touched = (path: string) =>
+      modified.some(
+        (candidate) =>
+          path === candidate || path.startsWith(`${candidate}.`) || candidate.startsWith(`${path}.`)
+      );
+    const before = snapshot(this.$locals.auditBefore as Record<string, unknown>, options);
+    const changes = diff(before, after, options, touched);
+    if (changes.changedFields.length > 0) {
+      await record(
+        'update',
+        options,
+        this._id,
+        changes.before,
+        changes.after,
+        changes.changedFields
+      );
+    }
+  });
+
+  schema.post('insertMany', async function (docs: mongoose.Document[]) {
+    for (const doc of docs) {
+      const after = snapshot(doc.toObject({ depopulate: true, virtuals: false }), options);
+      await record('create', options, doc._id, undefined, after, Object.keys(after));
+    }
+  });
+
+  // Query writes don't expose the documents they touch, so read them before the write runs
+  const captureBefore = (many: boolean, update = false) =>
+    async function (this: AuditedQuery) {
+      // Bulk updates only need the paths they write, which keeps them cheap to snapshot
+      const roots = many && update ? updatedRoots(this.getUpdate()) : undefined;
+      this._auditRoots = roots;
+      const projection = roots ? ['_id', ...roots].join(' ') : hiddenPaths;
+      const query = this.model.find(this.getFilter()).select(projection).lean();
+      if (!many) {
+        this._auditBefore = await query.limit(1);
+        return;
+      }
+
+      const docs = await query.limit(BULK_AUDIT_LIMIT + 1);
+      if (docs.length > BULK_AUDIT_LIMIT) {
+        this._auditBulk = true;
+        return;
+      }
+      this._auditBefore = docs;
+    };
+
+  // One entry for a bulk write too large to log record by record; values are left out
+  const recordBulk = async (
+    query: AuditedQuery,
+    action: AuditAction,
+    result: { modifiedCount?: number; deletedCount?: number } | null
+  ): Promise<void> => {
+    const count = action === 'delete' ? result?.deletedCount : result?.modifiedCount;
+    const fields = action === 'update' ? updatedRoots(query.getUpdate()) || [] : [];
+    await record(action, options, 'bulk', undefined, { count }, fields);
+  };
+
+  schema.pre(['findOneAndUpdate', 'updateOne'], captureBefore(false));
+  schema.pre('updateMany', captureBefore(true, true));
+
+  schema.post(
+    ['findOneAndUpdate', 'updateOne', 'updateMany'],
+    async function (this: AuditedQuery, result: unknown) {
+      if (this._auditBulk) {
+        await recordBulk(this, 'update', result as { modifiedCount?: number });
+        return;
+      }
+      const beforeDocs = this._auditBefore || [];
+
+      // An upsert that matched nothing created a record instead
+      if (beforeDocs.length === 0) {
+        if (!this.getOptions().upsert) return;
+        const [created] = await loadSnapshots(this.model, this.getFilter());
+        if (created) {
+          const after = snapshot(created, options);
+          await record('create', options, created._id, undefined, after, Object.keys(after));
+        }
+        return;
+      }
+
+      // A projected snapshot only covers the written paths, so compare just those
+      const roots = this._auditRoots;
+      const written = roots ? (path: string) => matchesPath(path, roots) : undefined;
+
+      const afterDocs = await loadSnapshots(
+        this.model,
+        { _id: { $in: beforeDocs.map((doc) => doc._id) } },
+        roots ? ['_id', ...roots].join(' ') : hiddenPaths
+      );
+      const afterById = new Map(afterDocs.map((doc) => [String(doc._id), doc]));
+
+      for (const beforeDoc of beforeDocs) {
+        const changes = diff(
+          snapshot(beforeDoc, options),
+          snapshot(afterById.get(String(beforeDoc._id)), options),
+          options,
+          written
+        );
+        if (changes.changedFields.length > 0) {
+          await record(
+            'update',
+            options,
+            beforeDoc._id,
+            changes.before,
+            changes.after,
+            changes.changedFields
+          );
+        }
+      }
+    }
+  );
+
+  schema.pre(['findOneAndDelete', 'deleteOne'], captureBefore(false));
+  schema.pre('deleteMany', captureBefore(true));
+
+  schema.post(
+    ['findOneAndDelete', 'deleteOne', 'deleteMany'],
+    async function (this: AuditedQuery, result: unknown) {
+      if (this._auditBulk) {
+        await recordBulk(this, 'delete', result as { deletedCount?: number });
+        return;
+      }
+      const beforeDocs = this._auditBefore || [];
+      const remaining = await this.model
+        .find({ _id: { $in: beforeDocs.map((doc) => doc._id) } })
+        .select('_id')
+        .lean();
+      const remainingIds = new Set(remaining.map((doc: { _id: unknown }) => String(doc._id)));
+
+      for (const beforeDoc of beforeDocs) {
+        if (remainingIds.has(String(beforeDoc._id))) continue;
+        const before = snapshot(beforeDoc, options);
+        await record('delete', options, beforeDoc._id, before, undefined, Object.keys(before));
+      }
+    }
+  );
+};
@@ -1,7 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middleware/error.middleware';
 
+// API keys are denied by default: a handler only runs for one if requirePermission cleared it
 export const catchAsync = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) => {
   return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKey && !req.apiKeyAuthorized) {
+      return next(new AppError('This route cannot be used with an API key', 403));
+    }
     fn(req, res, next).catch(next);
   };
 };
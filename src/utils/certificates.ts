@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { DocumentType, IDocumentRequest } from '../models/document-request.model';
+import { getInstituteSettings } from './enrollment';
+import { escapeHtml, formatDate } from './pdf';
+
+export const DOCUMENT_TITLES: Record<DocumentType, string> = {
+  bonafide: 'Bonafide Certificate',
+  character: 'Character Certificate',
+  fee: 'Fee Certificate'
+};
+
+// Unambiguous characters only, since people type these in from paper
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateVerificationCode = (): string => {
+  const bytes = crypto.randomBytes(12);
+  const code = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  return `${code.slice(0, 4)}-${code.slice(4, 8)}-${code.slice(8, 12)}`;
+};
+
+export const getVerificationUrl = (code: string): string => {
+  const clientUrl = process.env.CLIENT_URL || 'http://localhost:3000';
+  return `${clientUrl}/verify-document/${code}`;
+};
+
+const describeStudent = (request: IDocumentRequest): string => {
+  const details = request.issuedDetails!;
+  const parts = [
+    `<strong>${escapeHtml(details.name)}</strong>`,
+    `(Enrollment No. <strong>${escapeHtml(details.enrollmentNo)}</strong>)`
+  ];
+  if (details.department) parts.push(`of the ${escapeHtml(details.department)} department`);
+  return parts.join(' ');
+};
+
+const BODY: Record<DocumentType, (request: IDocumentRequest) => string> = {
+  bonafide: (request) => `
+    This is to certify that ${describeStudent(request)} is a bonafide student of this institute,
+    studying in semester ${escapeHtml(request.issuedDetails!.semester ?? '-')}
+    ${request.issuedDetails!.batch ? `of the ${escapeHtml(request.issuedDetails!.batch)} batch` : ''}
+    ${request.academicYear ? `during the academic year ${escapeHtml(request.academicYear)}` : ''}.`,
+  character: (request) => `
+    This is to certify that ${describeStudent(request)} has been a student of this institute
+    ${request.issuedDetails!.admissionYear ? `since ${escapeHtml(request.issuedDetails!.admissionYear)}` : ''}.
+    To the best of our knowledge, the student bears a good moral character and nothing adverse
+    has come to the notice of the institute.`,
+  fee: (request) => `
+    This is to certify that ${describeStudent(request)} is a student of this institute and has
+    paid the fees prescribed by the institute
+    ${request.academicYear ? `for the academic year ${escapeHtml(request.academicYear)}` : ''}.`
+};
+
+const STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; font-size: 14px; color: #222; }
+  header { text-align: center; border-bottom: 2px solid #222; padding-bottom: 8px; }
+  header h1 { font-size: 20px; margin: 0; }
+  h2 { text-align: center; text-decoration: underline; font-size: 17px; margin: 28px 0; }
+  .meta { display: flex; justify-content: space-between; font-size: 12px; }
+  .body { line-height: 1.8; text-align: justify; margin: 24px 0; }
+  .signature { margin-top: 72px; text-align: right; }
+  .verification { margin-top: 48px; display: flex; align-items: center; gap: 12px; font-size: 11px; }
+  .verification img { width: 90px; height: 90px; }
+`;
+
+// Only for approved requests; the QR code and code both lead to the public verification page
+export const renderCertificateHtml = async (request: IDocumentRequest): Promise<string> => {
+  const code = request.verificationCode!;
+  const url = getVerificationUrl(code);
+  const qrCode = await QRCode.toDataURL(url, { margin: 0 });
+  const { name: instituteName } = await getInstituteSettings();
+
+  return `
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>${STYLES}</style>
+</head>
+<body>
+  <header><h1>${escapeHtml(instituteName)}</h1></header>
+  <div class="meta">
+    <span>Ref. No. ${escapeHtml(code)}</span>
+    <span>Date: ${formatDate(request.issuedAt)}</span>
+  </div>
+  <h2>${DOCUMENT_TITLES[request.type]}</h2>
+  <p class="body">${BODY[request.type](request)}</p>
+  <p class="body">This certificate is issued on the student's request for the purpose of
+    ${escapeHtml(request.purpose)}.</p>
+  <div class="signature">Principal<br>${escapeHtml(instituteName)}</div>
+  <div class="verification">
+    <img src="${qrCode}" alt="">
+    <span>Verify this certificate at ${escapeHtml(url)}<br>
+      or with verification code <strong>${escapeHtml(code)}</strong></span>
+  </div>
+</body>
+</html>`;
+};
@@ -0,0 +1,104 @@
+// Frequently breached and easily guessed passwords, checked case-insensitively and with
+// trailing digits and symbols removed, so "Password@123" is caught by "password"
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '000000',
+  '111111',
+  '112233',
+  '121212',
+  '123123',
+  '123321',
+  '1234',
+  '12345',
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '123qwe',
+  '1q2w3e',
+  '1q2w3e4r',
+  '1qaz2wsx',
+  '654321',
+  '666666',
+  '696969',
+  '777777',
+  '7777777',
+  '888888',
+  '987654321',
+  'aa123456',
+  'abc',
+  'abc123',
+  'abcd',
+  'abcdef',
+  'access',
+  'admin',
+  'administrator',
+  'asdf',
+  'asdfgh',
+  'asdfghjkl',
+  'azerty',
+  'baseball',
+  'batman',
+  'bharat',
+  'changeme',
+  'charlie',
+  'cheese',
+  'chocolate',
+  'college',
+  'computer',
+  'cricket',
+  'default',
+  'dhoni',
+  'dragon',
+  'faculty',
+  'flower',
+  'football',
+  'freedom',
+  'ganesh',
+  'gpp',
+  'gppalanpur',
+  'gtu',
+  'guest',
+  'hello',
+  'hockey',
+  'iloveyou',
+  'india',
+  'jaishreeram',
+  'jesus',
+  'killer',
+  'krishna',
+  'letmein',
+  'login',
+  'lovely',
+  'master',
+  'michael',
+  'monkey',
+  'mustang',
+  'naruto',
+  'ninja',
+  'palanpur',
+  'pass',
+  'passw0rd',
+  'password',
+  'pokemon',
+  'polytechnic',
+  'princess',
+  'qazwsx',
+  'qwerty',
+  'qwertyuiop',
+  'sachin',
+  'sairam',
+  'secret',
+  'shadow',
+  'student',
+  'sunshine',
+  'superman',
+  'test',
+  'trustno',
+  'user',
+  'welcome',
+  'whatever',
+  'zaq1zaq1',
+  'zxcvbn',
+  'zxcvbnm'
+]);
@@ -0,0 +1,61 @@
+import jwt from 'jsonwebtoken';
+import { IUser } from '../models/user.model';
+import { queueEmail } from './mailer';
+
+interface VerificationClaims {
+  id: string;
+  email: string;
+}
+
+// The link is a signed token bound to the address, so changing the email voids older links
+export const signEmailVerificationToken = (user: IUser): string => {
+  const expiresInHours = parseInt(process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || '') || 24;
+  return jwt.sign(
+    { id: user._id.toString(), email: user.email, purpose: 'email-verification' },
+    process.env.JWT_SECRET as string,
+    { expiresIn: expiresInHours * 60 * 60 }
+  );
+};
+
+export const verifyEmailVerificationToken = (token: string): VerificationClaims | null => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as {
+      id?: string;
+      email?: string;
+      purpose?: string;
+    };
+    if (decoded.purpose !== 'email-verification' || !decoded.id || !decoded.email) return null;
+    return { id: decoded.id, email: decoded.email };
+  } catch (error) {
+    return null;
+  }
+};
+
+// Seconds the user still has to wait before another link may be sent
+export const getResendWaitSeconds = (user: IUser): number => {
+  if (!user.emailVerificationSentAt) return 0;
+  const cooldownSeconds = parseInt(process.env.EMAIL_VERIFICATION_RESEND_SECONDS || '') || 60;
+  const elapsed = (Date.now() - user.emailVerificationSentAt.getTime()) / 1000;
+  return Math.max(0, Math.ceil(cooldownSeconds - elapsed));
+};
+
+export const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  const clientUrl = process.env.CLIENT_URL || 'http://localhost:3000';
+  const verifyURL = `${clientUrl}/verify-email/${signEmailVerificationToken(user)}`;
+
+  await queueEmail(
+    {
+      to: user.email,
+      subject: 'Verify your GPP Portal email address',
+      text:
+        `Hello ${user.name},\n\n` +
+        'Please confirm that this is your email address by opening the link below.\n\n' +
+        `${verifyURL}\n\n` +
+        'If you did not create a GPP Portal account, you can ignore this email.'
+    },
+    'email-verification'
+  );
+
+  user.emailVerificationSentAt = new Date();
+  await user.save({ validateBeforeSave: false });
+};
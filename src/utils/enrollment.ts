@@ -0,0 +1,178 @@
+import { CounterModel } from '../models/counter.model';
+import { DepartmentModel } from '../models/department.model';
+import {
+  IInstituteSettings,
+  INSTITUTE_SETTINGS_KEY,
+  InstituteSettingsModel
+} from '../models/institute-settings.model';
+import { StudentModel } from '../models/student.model';
+import { AppError } from '../middleware/error.middleware';
+
+// {YYYY} and {YY} admission year, {INSTITUTE} institute code, {BRANCH} department code,
+// {SEQ:n} the next number in the sequence padded to n digits
+const TOKEN = /\{([A-Z]+)(?::(\d+))?\}/g;
+const FIXED_TOKENS = ['YYYY', 'YY', 'INSTITUTE', 'BRANCH'];
+
+// Give up rather than loop forever if numbers keep turning out to be taken
+const MAX_ATTEMPTS = 20;
+
+export interface EnrollmentValues {
+  admissionYear: number;
+  branchCode?: string;
+}
+
+// Settings as stored, or the defaults when nobody has saved any yet
+export const getInstituteSettings = async (): Promise<IInstituteSettings> =>
+  (await InstituteSettingsModel.findOne({ key: INSTITUTE_SETTINGS_KEY })) ||
+  new InstituteSettingsModel();
+
+export const institutionalEmailFor = (enrollmentNo: string, settings: IInstituteSettings): string =>
+  `${enrollmentNo.toLowerCase()}@${settings.emailDomain}`;
+
+// Throws with the first problem found so admins can't save a pattern that can't be generated
+export const validateEnrollmentPattern = (pattern: string): void => {
+  if (!pattern || typeof pattern !== 'string') {
+    throw new AppError('Enrollment pattern is required', 400);
+  }
+
+  let sequences = 0;
+  const tokens: [string, string | undefined][] = [];
+  pattern.replace(TOKEN, (token, name, width) => {
+    tokens.push([name, width]);
+    return token;
+  });
+  for (const [name, width] of tokens) {
+    if (name === 'SEQ') {
+      sequences++;
+      const digits = parseInt(width || '');
+      if (!(digits >= 1 && digits <= 8)) {
+        throw new AppError('The sequence needs a width between 1 and 8, e.g. {SEQ:3}', 400);
+      }
+    } else if (!FIXED_TOKENS.includes(name) || width !== undefined) {
+      throw new AppError(`Unknown token {${name}${width ? `:${width}` : ''}}`, 400);
+    }
+  }
+  if (sequences !== 1) {
+    throw new AppError('The pattern must contain exactly one {SEQ:n} token', 400);
+  }
+
+  const literal = pattern.replace(TOKEN, '');
+  if (!/^[A-Za-z0-9-]*$/.test(literal)) {
+    throw new AppError('Only letters, digits and hyphens may appear outside tokens', 400);
+  }
+};
+
+// Fills in everything but the {SEQ:n} token, which is left in place for the caller
+export const renderFixedTokens = (
+  pattern: string,
+  settings: IInstituteSettings,
+  values: EnrollmentValues
+): string =>
+  pattern.replace(TOKEN, (token, name) => {
+    switch (name) {
+      case 'YYYY':
+        return String(values.admissionYear);
+      case 'YY':
+        return String(values.admissionYear).slice(-2);
+      case 'INSTITUTE':
+        return settings.code;
+      case 'BRANCH':
+        if (!values.branchCode) {
+          throw new AppError('A department is needed to generate the enrollment number', 400);
+        }
+        return values.branchCode;
+      default:
+        return token;
+    }
+  });
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Highest sequence already used by students with this prefix and suffix, so a new counter
+ * carries on after numbers that were issued before counters existed or were imported.
+ */
+const findHighestSequence = async (prefix: string, suffix: string, width: number) => {
+  const matcher = new RegExp(`^${escapeRegExp(prefix)}(\\d{${width}})${escapeRegExp(suffix)}$`);
+  const [latest] = await StudentModel.find({ enrollmentNo: matcher })
+    .select('enrollmentNo')
+    .sort({ enrollmentNo: -1 })
+    .limit(1)
+    .lean();
+  return latest ? parseInt(latest.enrollmentNo!.match(matcher)![1]) : 0;
+};
+
+// Counters are kept per rendered prefix and suffix, so each year and branch counts from 1
+const nextSequence = async (prefix: string, suffix: string, width: number): Promise<number> => {
+  const key = `enrollment:${prefix}{SEQ}${suffix}`;
+
+  if (!(await CounterModel.exists({ _id: key }))) {
+    const highest = await findHighestSequence(prefix, suffix, width);
+    try {
+      await CounterModel.updateOne({ _id: key }, { $max: { seq: highest } }, { upsert: true });
+    } catch (error) {
+      // Another request created the counter at the same moment; $max made it idempotent anyway
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+  }
+
+  const counter = await CounterModel.findOneAndUpdate(
+    { _id: key },
+    { $inc: { seq: 1 } },
+    { upsert: true, new: true }
+  );
+  return counter!.seq;
+};
+
+/**
+ * Next enrollment number from the institute's pattern. Sequences come from atomic counters,
+ * and numbers already taken, e.g. by a GTU import, are skipped.
+ */
+export const generateEnrollmentNo = async (
+  values: EnrollmentValues,
+  settings?: IInstituteSettings
+): Promise<string> => {
+  const institute = settings || (await getInstituteSettings());
+  const rendered = renderFixedTokens(institute.enrollmentPattern, institute, values);
+  const [prefix, width, suffix] = rendered.split(/\{SEQ:(\d+)\}/);
+  const digits = parseInt(width);
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const seq = await nextSequence(prefix, suffix, digits);
+    if (seq >= 10 ** digits) {
+      throw new AppError(
+        `Enrollment numbers starting ${prefix} have run out; widen the sequence in the pattern`,
+        409
+      );
+    }
+
+    const enrollmentNo = `${prefix}${String(seq).padStart(digits, '0')}${suffix}`;
+    if (!(await StudentModel.exists({ enrollmentNo }))) {
+      return enrollmentNo;
+    }
+  }
+
+  throw new AppError('Could not find a free enrollment number. Please try again', 409);
+};
+
+type StudentDocument = InstanceType<typeof StudentModel>;
+
+// Issues the enrollment number and institutional email of a student who has a department
+export const assignEnrollmentNo = async (
+  student: StudentDocument,
+  settings?: IInstituteSettings
+): Promise<void> => {
+  const department = await DepartmentModel.findById(student.departmentId).select('code');
+  if (!department) {
+    throw new AppError('Department not found', 404);
+  }
+
+  const institute = settings || (await getInstituteSettings());
+  const enrollmentNo = await generateEnrollmentNo(
+    { admissionYear: student.admissionYear, branchCode: department.code },
+    institute
+  );
+  student.enrollmentNo = enrollmentNo;
+  student.enrollmentSource = 'generated';
+  student.institutionalEmail = institutionalEmailFor(enrollmentNo, institute);
+};
@@ -0,0 +1,469 @@
+import csv from 'csv-parser';
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import { DepartmentModel } from '../models/department.model';
+import { StudentModel } from '../models/student.model';
+import { UserModel } from '../models/user.model';
+import { getInstituteSettings, institutionalEmailFor } from './enrollment';
+import { generateTemporaryPassword } from './password-policy';
+import { sendAccountSetupEmail } from './account-setup';
+import { calculateCurrentSemester } from './semester-reconciliation';
+
+const BATCH_SIZE = 50;
+
+export interface ImportIssue {
+  row: number;
+  enrollmentNo?: string;
+  message: string;
+}
+
+// One student row turned into the writes it will cause
+export interface GTUImportEntry {
+  row: number;
+  enrollmentNo: string;
+  user: { name: string; email: string; department: mongoose.Types.ObjectId };
+  student: Record<string, unknown>;
+}
+
+export interface GTUImportPlan {
+  rowCount: number;
+  entries: GTUImportEntry[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface GTUImportPreviewRow {
+  row: number;
+  enrollmentNo: string;
+  name: string;
+  action: 'create' | 'update' | 'unchanged';
+  createsUser: boolean;
+  changes: Record<string, FieldChange>;
+}
+
+export interface GTUImportPreview {
+  summary: {
+    rows: number;
+    create: number;
+    update: number;
+    unchanged: number;
+    errors: number;
+    warnings: number;
+  };
+  created: GTUImportPreviewRow[];
+  updated: GTUImportPreviewRow[];
+  unchanged: { row: number; enrollmentNo: string }[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+export interface GTUImportResult {
+  students: unknown[];
+  errors: ImportIssue[];
+  setupEmailsSent: number;
+}
+
+function mapSemesterStatus(value: string): 'CLEARED' | 'PENDING' | 'NOT_ATTEMPTED' {
+  if (!value) return 'NOT_ATTEMPTED';
+  const numValue = parseInt(value);
+  if (isNaN(numValue)) return 'NOT_ATTEMPTED';
+  if (numValue === 2) return 'CLEARED';
+  if (numValue === 1) return 'PENDING';
+  return 'NOT_ATTEMPTED';
+}
+
+// Helper function to extract year from enrollment number
+export function getAdmissionYearFromEnrollment(enrollmentNo: string): number {
+  if (!enrollmentNo) return new Date().getFullYear();
+
+  // First try to get year from first 4 digits
+  let year = parseInt(enrollmentNo.substring(0, 4));
+  if (!isNaN(year) && year >= 2000 && year <= 2030) {
+    return year;
+  }
+
+  // If that fails, try first 2 digits assuming 20xx format
+  year = parseInt('20' + enrollmentNo.substring(0, 2));
+  if (!isNaN(year) && year >= 2000 && year <= 2030) {
+    return year;
+  }
+
+  // If all fails, return current year
+  return new Date().getFullYear();
+}
+
+function parseStudentName(fullName: string): { firstName: string; middleName: string; lastName: string } {
+  const parts = fullName.trim().split(' ').filter(p => p.length > 0);
+
+  if (parts.length === 3) {
+    return {
+      lastName: parts[0],
+      firstName: parts[1],
+      middleName: parts[2]
+    };
+  } else if (parts.length === 2) {
+    return {
+      lastName: parts[0],
+      firstName: parts[1],
+      middleName: ''
+    };
+  } else if (parts.length === 1) {
+    return {
+      firstName: parts[0],
+      middleName: '',
+      lastName: ''
+    };
+  }
+
+  return {
+    firstName: fullName,
+    middleName: '',
+    lastName: ''
+  };
+}
+
+function parseBooleanFromCSV(value: any): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const normalized = value.toLowerCase().trim();
+    return normalized === '1' || normalized === 'true' || normalized === 'yes';
+  }
+  return false;
+}
+
+// Helper function to map gender values
+function mapGenderValue(value: string): string {
+  if (!value) return 'P'; // Default to 'Prefer not to say' if empty
+  const normalized = value.trim().toUpperCase();
+  const genderMap: { [key: string]: string } = {
+    'M': 'M',
+    'MALE': 'M',
+    'F': 'F',
+    'FEMALE': 'F',
+    'O': 'O',
+    'OTHER': 'O',
+    'NB': 'NB',
+    'NON-BINARY': 'NB',
+    'NONBINARY': 'NB',
+    'P': 'P',
+    'PREFER NOT TO SAY': 'P',
+    'PREFER NOT TO DISCLOSE': 'P'
+  };
+  return genderMap[normalized] || 'P';
+}
+
+export const parseCsvRows = (buffer: Buffer): Promise<any[]> =>
+  new Promise<any[]>((resolve, reject) => {
+    const results: any[] = [];
+    Readable.from(buffer.toString())
+      .pipe(csv())
+      .on('data', (data) => results.push(data))
+      .on('end', () => resolve(results))
+      .on('error', (error) => reject(new Error(`Error parsing CSV: ${error.message}`)));
+  });
+
+/**
+ * Validate the GTU export and work out the user and student fields each row sets,
+ * without touching either collection. Rows are numbered from 1, excluding the header.
+ */
+export const planGTUImport = async (rows: any[]): Promise<GTUImportPlan> => {
+  const plan: GTUImportPlan = { rowCount: rows.length, entries: [], errors: [], warnings: [] };
+  const departmentCache = new Map();
+  const seenRows = new Map<string, number>();
+  const settings = await getInstituteSettings();
+
+  for (const [index, row] of rows.entries()) {
+    const rowNumber = index + 1;
+    const enrollmentNo = row.map_number?.toString().trim();
+    if (!enrollmentNo) {
+      plan.errors.push({ row: rowNumber, message: 'Missing enrollment number' });
+      continue;
+    }
+
+    const firstRow = seenRows.get(enrollmentNo);
+    if (firstRow) {
+      plan.errors.push({
+        row: rowNumber,
+        enrollmentNo,
+        message: `Duplicate of row ${firstRow}; only the first row is imported`
+      });
+      continue;
+    }
+    seenRows.set(enrollmentNo, rowNumber);
+
+    // Handle the name properly
+    const fullName = row.Name?.trim() || '';
+    if (!fullName) {
+      plan.warnings.push({ row: rowNumber, enrollmentNo, message: 'Missing student name' });
+    }
+
+    const { firstName, middleName, lastName } = parseStudentName(fullName);
+
+    // Generate institutional email
+    const institutionalEmail = institutionalEmailFor(enrollmentNo, settings);
+    const personalEmail = row.Email?.trim() || '';
+
+    const branchCode = row.BR_CODE?.toString().padStart(2, '0');
+    if (!branchCode) {
+      plan.errors.push({ row: rowNumber, enrollmentNo, message: 'Missing branch code' });
+      continue;
+    }
+
+    // Use cached department or fetch and cache it
+    let department = departmentCache.get(branchCode);
+    if (!department) {
+      department = await DepartmentModel.findOne({ code: branchCode });
+      if (department) {
+        departmentCache.set(branchCode, department);
+      }
+    }
+
+    if (!department) {
+      plan.warnings.push({
+        row: rowNumber,
+        enrollmentNo,
+        message: `Department not found for branch code: ${branchCode}; row skipped`
+      });
+      continue;
+    }
+
+    const semesterStatus = {
+      sem1: mapSemesterStatus(row.SEM1),
+      sem2: mapSemesterStatus(row.SEM2),
+      sem3: mapSemesterStatus(row.SEM3),
+      sem4: mapSemesterStatus(row.SEM4),
+      sem5: mapSemesterStatus(row.SEM5),
+      sem6: mapSemesterStatus(row.SEM6),
+      sem7: 'NOT_ATTEMPTED' as const,
+      sem8: 'NOT_ATTEMPTED' as const
+    };
+
+    // Get admission year from enrollment number using helper function
+    const admissionYear = getAdmissionYearFromEnrollment(enrollmentNo);
+
+    plan.entries.push({
+      row: rowNumber,
+      enrollmentNo,
+      user: {
+        name: fullName || 'N/A',
+        email: institutionalEmail,
+        department: department._id
+      },
+      student: {
+        firstName,
+        middleName,
+        lastName,
+        fullName,
+        personalEmail,
+        institutionalEmail,
+        departmentId: department._id,
+        // The GTU export has no address or guardian details, so those are never overwritten
+        contact: {
+          ...(row.Mobile?.trim() && { mobile: row.Mobile.trim() }),
+          email: personalEmail || institutionalEmail
+        },
+        gender: mapGenderValue(row.Gender),
+        category: row.Category?.trim() || 'OPEN',
+        aadharNo: row.aadhar?.trim() || '',
+        semesterStatus,
+        semester: calculateCurrentSemester(semesterStatus),
+        admissionYear,
+        batch: `${admissionYear}-${admissionYear + 3}`, // 3 years for diploma
+        termClose: parseBooleanFromCSV(row.termClose),
+        isCancel: parseBooleanFromCSV(row.isCancel),
+        isPassAll: parseBooleanFromCSV(row.ispassall),
+        ...(row.convoyear && { convoYear: parseInt(row.convoyear) })
+      }
+    });
+  }
+
+  return plan;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  !(value instanceof mongoose.Types.ObjectId);
+
+// Nested fields such as contact.mobile are compared one by one so the diff names the exact field
+const diffFields = (
+  current: Record<string, unknown>,
+  next: Record<string, unknown>,
+  prefix = ''
+): Record<string, FieldChange> => {
+  const changes: Record<string, FieldChange> = {};
+  for (const [key, value] of Object.entries(next)) {
+    const path = `${prefix}${key}`;
+    if (isPlainObject(value)) {
+      const nested = isPlainObject(current?.[key]) ? (current[key] as Record<string, unknown>) : {};
+      Object.assign(changes, diffFields(nested, value, `${path}.`));
+      continue;
+    }
+    const from = current?.[key];
+    if (String(from ?? '') !== String(value ?? '')) {
+      changes[path] = { from: from ?? null, to: value };
+    }
+  }
+  return changes;
+};
+
+// $set paths for nested fields, so writing contact.mobile leaves the rest of contact alone
+const toSetPaths = (
+  value: Record<string, unknown>,
+  prefix = '',
+  paths: Record<string, unknown> = {}
+): Record<string, unknown> => {
+  for (const [key, child] of Object.entries(value)) {
+    if (isPlainObject(child)) {
+      toSetPaths(child, `${prefix}${key}.`, paths);
+    } else {
+      paths[`${prefix}${key}`] = child;
+    }
+  }
+  return paths;
+};
+
+// What committing the plan would change, compared against the records as they are now
+export const previewGTUImport = async (plan: GTUImportPlan): Promise<GTUImportPreview> => {
+  const preview: GTUImportPreview = {
+    summary: {
+      rows: plan.rowCount,
+      create: 0,
+      update: 0,
+      unchanged: 0,
+      errors: plan.errors.length,
+      warnings: plan.warnings.length
+    },
+    created: [],
+    updated: [],
+    unchanged: [],
+    errors: plan.errors,
+    warnings: plan.warnings
+  };
+
+  for (let i = 0; i < plan.entries.length; i += BATCH_SIZE) {
+    const batch = plan.entries.slice(i, i + BATCH_SIZE);
+    const [students, users] = await Promise.all([
+      StudentModel.find({ enrollmentNo: { $in: batch.map((entry) => entry.enrollmentNo) } }).lean(),
+      UserModel.find({ email: { $in: batch.map((entry) => entry.user.email) } })
+        .select('name email department roles')
+        .lean()
+    ]);
+    const studentsByEnrollment = new Map(students.map((student) => [student.enrollmentNo, student]));
+    const usersByEmail = new Map(users.map((user) => [user.email, user]));
+
+    for (const entry of batch) {
+      const student = studentsByEnrollment.get(entry.enrollmentNo);
+      const user = usersByEmail.get(entry.user.email);
+      const row = {
+        row: entry.row,
+        enrollmentNo: entry.enrollmentNo,
+        name: entry.user.name,
+        createsUser: !user
+      };
+
+      if (!student) {
+        preview.summary.create++;
+        preview.created.push({ ...row, action: 'create', changes: {} });
+        continue;
+      }
+
+      const changes = diffFields(student as unknown as Record<string, unknown>, entry.student);
+      if (user) {
+        for (const [path, change] of Object.entries(
+          diffFields(user as unknown as Record<string, unknown>, {
+            name: entry.user.name,
+            department: entry.user.department
+          })
+        )) {
+          changes[`user.${path}`] = change;
+        }
+        if (!user.roles.includes('student')) {
+          changes['user.roles'] = { from: user.roles, to: [...user.roles, 'student'] };
+        }
+      }
+
+      if (Object.keys(changes).length === 0 && user) {
+        preview.summary.unchanged++;
+        preview.unchanged.push({ row: entry.row, enrollmentNo: entry.enrollmentNo });
+      } else {
+        preview.summary.update++;
+        preview.updated.push({ ...row, action: 'update', changes });
+      }
+    }
+  }
+
+  return preview;
+};
+
+/**
+ * Write the planned rows. New accounts get an email link to set their password; existing
+ * accounts only gain the student role and updated name and department.
+ */
+export const applyGTUImport = async (entries: GTUImportEntry[]): Promise<GTUImportResult> => {
+  const result: GTUImportResult = { students: [], errors: [], setupEmailsSent: 0 };
+
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    const batch = entries.slice(i, i + BATCH_SIZE);
+    const users = await UserModel.find({ email: { $in: batch.map((entry) => entry.user.email) } })
+      .select('_id email')
+      .lean();
+    const userIds = new Map(users.map((user) => [user.email, user._id]));
+
+    const students = await Promise.all(
+      batch.map(async (entry) => {
+        try {
+          let userId = userIds.get(entry.user.email);
+          if (userId) {
+            await UserModel.updateOne(
+              { _id: userId },
+              {
+                $set: { name: entry.user.name, department: entry.user.department },
+                $addToSet: { roles: 'student' }
+              }
+            );
+          } else {
+            const user = await UserModel.create({
+              ...entry.user,
+              password: generateTemporaryPassword(),
+              passwordChangeRequired: true,
+              roles: ['student'],
+              selectedRole: 'student'
+            });
+            userId = user._id;
+            await sendAccountSetupEmail(user);
+            result.setupEmailsSent++;
+          }
+
+          return await StudentModel.findOneAndUpdate(
+            { enrollmentNo: entry.enrollmentNo },
+            // Status is left alone on existing students; it only changes through the lifecycle rules
+            {
+              $set: { ...toSetPaths(entry.student), userId, enrollmentSource: 'gtu' },
+              $setOnInsert: { status: 'active' }
+            },
+            { upsert: true, new: true, setDefaultsOnInsert: true }
+          );
+        } catch (error) {
+          result.errors.push({
+            row: entry.row,
+            enrollmentNo: entry.enrollmentNo,
+            message: `Failed to import student: ${(error as Error).message}`
+          });
+          return null;
+        }
+      })
+    );
+
+    result.students.push(...students.filter(Boolean));
+  }
+
+  return result;
+};
@@ -0,0 +1,183 @@
+import { Request } from 'express';
+import { IUser, UserModel } from '../models/user.model';
+import { LoginAttemptModel, LoginAttemptOutcome } from '../models/login-attempt.model';
+
+const getSettings = () => ({
+  // Failures allowed before each further attempt has to wait
+  freeAttempts: parseInt(process.env.LOGIN_FREE_ATTEMPTS || '') || 3,
+  // Failures that lock the account outright
+  maxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS || '') || 10,
+  lockMinutes: parseInt(process.env.LOGIN_LOCK_MINUTES || '') || 30,
+  maxDelaySeconds: parseInt(process.env.LOGIN_MAX_DELAY_SECONDS || '') || 60,
+  ipWindowMinutes: parseInt(process.env.LOGIN_IP_WINDOW_MINUTES || '') || 15,
+  ipMaxFailures: parseInt(process.env.LOGIN_IP_MAX_FAILURES || '') || 30
+});
+
+export interface LoginBlock {
+  outcome: 'throttled' | 'locked' | 'ip-blocked';
+  message: string;
+  retryAfterSeconds: number;
+}
+
+export const recordLoginAttempt = async (
+  req: Request,
+  email: string,
+  outcome: LoginAttemptOutcome,
+  user?: IUser | null
+): Promise<void> => {
+  await LoginAttemptModel.create({
+    email,
+    userId: user?._id,
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+    success: outcome === 'success',
+    outcome
+  });
+};
+
+// Too many failures from one address across any accounts
+export const checkIpAllowed = async (ip?: string): Promise<LoginBlock | null> => {
+  if (!ip) return null;
+
+  const { ipWindowMinutes, ipMaxFailures } = getSettings();
+  const failures = await LoginAttemptModel.countDocuments({
+    ip,
+    outcome: { $in: ['invalid-credentials', 'unknown-user', 'invalid-second-factor'] },
+    createdAt: { $gt: new Date(Date.now() - ipWindowMinutes * 60 * 1000) }
+  });
+
+  if (failures < ipMaxFailures) return null;
+
+  return {
+    outcome: 'ip-blocked',
+    message: 'Too many failed login attempts from this address. Please try again later',
+    retryAfterSeconds: ipWindowMinutes * 60
+  };
+};
+
+type LoginCounters = Pick<IUser, 'failedLoginAttempts' | 'lastFailedLoginAt' | 'lockUntil'>;
+
+// Locked accounts wait out the lock; otherwise each failure past the free ones doubles the wait
+export const checkAccountAllowed = (user: LoginCounters): LoginBlock | null => {
+  const now = Date.now();
+
+  if (user.lockUntil && user.lockUntil.getTime() > now) {
+    const retryAfterSeconds = Math.ceil((user.lockUntil.getTime() - now) / 1000);
+    return {
+      outcome: 'locked',
+      message: `Account is locked. Try again in ${Math.ceil(retryAfterSeconds / 60)} minutes`,
+      retryAfterSeconds
+    };
+  }
+
+  const { freeAttempts, maxDelaySeconds } = getSettings();
+  const excess = (user.failedLoginAttempts || 0) - freeAttempts;
+  if (excess < 0 || !user.lastFailedLoginAt) return null;
+
+  const delaySeconds = Math.min(2 ** excess, maxDelaySeconds);
+  const waitUntil = user.lastFailedLoginAt.getTime() + delaySeconds * 1000;
+  if (waitUntil <= now) return null;
+
+  const retryAfterSeconds = Math.ceil((waitUntil - now) / 1000);
+  return {
+    outcome: 'throttled',
+    message: `Too many failed attempts. Try again in ${retryAfterSeconds} seconds`,
+    retryAfterSeconds
+  };
+};
+
+// Why a suspended or deactivated account is turned away, or null when it may sign in
+export const getInactiveMessage = (user: IUser): string | null => {
+  if (!user.status || user.status === 'active') return null;
+  return user.status === 'suspended'
+    ? 'Your account has been suspended. Please contact the administrator'
+    : 'Your account has been deactivated. Please contact the administrator';
+};
+
+// Concurrent attempts that keep beating this one to the counters are turned away
+const MAX_RESERVE_TRIES = 5;
+
+/**
+ * Counts the attempt as failed before the password or code is checked, so guesses sent in
+ * parallel can't all pass the delay and lockout before any of them is counted. The counter
+ * only moves if nobody else changed it since it was read. A correct answer then clears it
+ * with resetLoginFailures or hands it back with releaseLoginAttempt.
+ */
+export const reserveLoginAttempt = async (user: IUser): Promise<LoginBlock | null> => {
+  let counters: LoginCounters | null = user;
+
+  for (let tries = 0; tries < MAX_RESERVE_TRIES && counters; tries++) {
+    const block = checkAccountAllowed(counters);
+    if (block) return block;
+
+    const now = new Date();
+    const seen = counters.failedLoginAttempts || 0;
+    const reserved = await UserModel.findOneAndUpdate(
+      {
+        _id: user._id,
+        failedLoginAttempts: seen === 0 ? { $in: [0, null] } : seen,
+        $or: [{ lockUntil: null }, { lockUntil: { $lte: now } }]
+      },
+      { $inc: { failedLoginAttempts: 1 }, $set: { lastFailedLoginAt: now } },
+      { new: true }
+    ).select('failedLoginAttempts');
+
+    if (reserved) {
+      user.$locals.reservedAttempts = reserved.failedLoginAttempts;
+      return null;
+    }
+
+    // Another attempt got there first; judge this one against the counters it left
+    counters = await UserModel.findById(user._id)
+      .select('failedLoginAttempts lastFailedLoginAt lockUntil')
+      .lean();
+  }
+
+  return {
+    outcome: 'throttled',
+    message: 'Too many login attempts at once. Please try again in a moment',
+    retryAfterSeconds: 1
+  };
+};
+
+// The reserved attempt turned out to be the right password, so it doesn't count as a failure
+export const releaseLoginAttempt = async (user: IUser): Promise<void> => {
+  if (user.$locals.reservedAttempts === undefined) return;
+  delete user.$locals.reservedAttempts;
+  await UserModel.updateOne(
+    { _id: user._id, failedLoginAttempts: { $gt: 0 } },
+    { $inc: { failedLoginAttempts: -1 } }
+  );
+};
+
+// Locks the account once the failures reach the limit; a reserved attempt is already counted
+export const registerLoginFailure = async (user: IUser): Promise<void> => {
+  const { maxAttempts, lockMinutes } = getSettings();
+
+  let attempts = user.$locals.reservedAttempts as number | undefined;
+  if (attempts === undefined) {
+    const updated = await UserModel.findByIdAndUpdate(
+      user._id,
+      { $inc: { failedLoginAttempts: 1 }, $set: { lastFailedLoginAt: new Date() } },
+      { new: true }
+    );
+    attempts = updated?.failedLoginAttempts;
+  }
+  delete user.$locals.reservedAttempts;
+
+  if (attempts !== undefined && attempts >= maxAttempts) {
+    await UserModel.findByIdAndUpdate(user._id, {
+      $set: {
+        lockUntil: new Date(Date.now() + lockMinutes * 60 * 1000),
+        failedLoginAttempts: 0
+      }
+    });
+  }
+};
+
+export const resetLoginFailures = async (userId: string): Promise<void> => {
+  await UserModel.findByIdAndUpdate(userId, {
+    $set: { failedLoginAttempts: 0 },
+    $unset: { lastFailedLoginAt: 1, lockUntil: 1 }
+  });
+};
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { EmailOutboxModel, IEmailOutbox } from '../models/email-outbox.model';
+
+export interface MailMessage {
+  id: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const getSender = (): string => process.env.MAIL_FROM || 'GPP Portal <no-reply@gppalanpur.in>';
+
+// Plain SMTP, e.g. a local MailHog/Mailpit stand-in during development
+export const createSmtpTransport = (): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || '127.0.0.1',
+    port: parseInt(process.env.SMTP_PORT || '') || 1025,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined
+  });
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail({
+        from: getSender(),
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      });
+    }
+  };
+};
+
+// Writes each message as a JSON file so tests can read what would have been sent
+export const createFileTransport = (
+  dir = process.env.MAIL_OUTBOX_DIR || 'mail-outbox'
+): MailTransport => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.writeFile(
+      path.join(dir, `${message.id}.json`),
+      JSON.stringify({ from: getSender(), ...message, date: new Date().toISOString() }, null, 2)
+    );
+  }
+});
+
+let activeTransport: MailTransport | null = null;
+
+export const setMailTransport = (transport: MailTransport): void => {
+  activeTransport = transport;
+};
+
+/**
+ * SMTP when MAIL_TRANSPORT=smtp. The file sink is only a stand-in for development and tests:
+ * in production it would store reset and invitation links on the server instead of sending
+ * them, so production refuses to run without SMTP.
+ */
+export const getMailTransport = (): MailTransport => {
+  if (!activeTransport) {
+    if (process.env.NODE_ENV === 'production') {
+      if (process.env.MAIL_TRANSPORT !== 'smtp' || !process.env.SMTP_HOST) {
+        throw new Error('Mail is not configured: set MAIL_TRANSPORT=smtp and SMTP_HOST');
+      }
+    }
+    activeTransport =
+      process.env.MAIL_TRANSPORT === 'smtp' ? createSmtpTransport() : createFileTransport();
+  }
+  return activeTransport;
+};
+
+// Attempt delivery of an outbox entry and record the outcome on it
+export const deliverEmail = async (entry: IEmailOutbox): Promise<IEmailOutbox> => {
+  const transport = getMailTransport();
+  entry.attempts += 1;
+  entry.transport = transport.name;
+
+  try {
+    await transport.send({
+      id: entry._id.toString(),
+      to: entry.to,
+      subject: entry.subject,
+      text: entry.text,
+      html: entry.html
+    });
+    entry.status = 'sent';
+    entry.sentAt = new Date();
+    entry.lastError = undefined;
+  } catch (error) {
+    console.error('Email delivery failed:', error);
+    entry.status = 'failed';
+    entry.lastError = (error as Error).message;
+  }
+
+  return entry.save();
+};
+
+// Persist the message first so nothing is lost if the transport is down
+export const queueEmail = async (
+  message: Omit<MailMessage, 'id'>,
+  category = 'general'
+): Promise<IEmailOutbox> => {
+  const entry = await EmailOutboxModel.create({ ...message, category });
+  return deliverEmail(entry);
+};
+
+// Entries touched more recently than this may still be mid-delivery from queueEmail
+const RETRY_SETTLE_MS = 60 * 1000;
+
+export const retryFailedEmails = async (maxAttempts = 5): Promise<number> => {
+  const pending = await EmailOutboxModel.find({
+    status: { $in: ['queued', 'failed'] },
+    attempts: { $lt: maxAttempts },
+    updatedAt: { $lt: new Date(Date.now() - RETRY_SETTLE_MS) }
+  }).sort({ createdAt: 1 });
+
+  let delivered = 0;
+  for (const entry of pending) {
+    const result = await deliverEmail(entry);
+    if (result.status === 'sent') delivered++;
+  }
+  return delivered;
+};
+
+// Retry undelivered mail in the background; a run still in progress is never overlapped
+export const scheduleEmailRetries = (
+  intervalMs = parseInt(process.env.EMAIL_RETRY_INTERVAL_MS || '') || 5 * 60 * 1000
+): NodeJS.Timeout => {
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    retryFailedEmails()
+      .then((delivered) => {
+        if (delivered > 0) console.log(`Delivered ${delivered} queued emails`);
+      })
+      .catch((error) => console.error('Failed to retry queued emails:', error))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+  // Don't keep scripts that import the app alive just for this
+  timer.unref();
+  return timer;
+};
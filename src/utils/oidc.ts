@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AppError } from '../middleware/error.middleware';
+import { OidcStateModel } from '../models/oidc-state.model';
+import { hashToken } from './token.utils';
+
+// OpenID Connect authorization-code flow with PKCE against any standards compliant provider
+export interface OidcSettings {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+  tokenAuthMethod: 'client_secret_post' | 'client_secret_basic';
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export interface OidcIdentity {
+  issuer: string;
+  subject: string;
+  email: string;
+  name?: string;
+}
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+export const STATE_TTL_MS = 10 * 60 * 1000;
+
+let metadataCache: { issuer: string; metadata: ProviderMetadata; expiresAt: number } | null = null;
+let jwksCache: { uri: string; keys: crypto.JsonWebKey[]; expiresAt: number } | null = null;
+
+export const getOidcSettings = (): OidcSettings | null => {
+  const { OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_REDIRECT_URI } = process.env;
+  if (!OIDC_ISSUER || !OIDC_CLIENT_ID || !OIDC_REDIRECT_URI) return null;
+
+  return {
+    issuer: OIDC_ISSUER.replace(/\/+$/, ''),
+    clientId: OIDC_CLIENT_ID,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    redirectUri: OIDC_REDIRECT_URI,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    tokenAuthMethod:
+      process.env.OIDC_TOKEN_AUTH_METHOD === 'client_secret_basic'
+        ? 'client_secret_basic'
+        : 'client_secret_post'
+  };
+};
+
+const requestJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new AppError('Could not reach the single sign-on provider', 502);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    console.error(`OIDC request to ${url} failed with ${response.status}: ${detail}`);
+    throw new AppError('The single sign-on provider rejected the request', 502);
+  }
+  return (await response.json()) as T;
+};
+
+const discover = async (settings: OidcSettings): Promise<ProviderMetadata> => {
+  if (
+    metadataCache &&
+    metadataCache.issuer === settings.issuer &&
+    metadataCache.expiresAt > Date.now()
+  ) {
+    return metadataCache.metadata;
+  }
+
+  const metadata = await requestJson<ProviderMetadata>(
+    `${settings.issuer}/.well-known/openid-configuration`
+  );
+  if (metadata.issuer.replace(/\/+$/, '') !== settings.issuer) {
+    throw new AppError('Single sign-on provider reported an unexpected issuer', 502);
+  }
+
+  metadataCache = { issuer: settings.issuer, metadata, expiresAt: Date.now() + DISCOVERY_TTL_MS };
+  return metadata;
+};
+
+const findSigningKey = async (
+  metadata: ProviderMetadata,
+  kid?: string
+): Promise<crypto.KeyObject> => {
+  const pick = (keys: crypto.JsonWebKey[]) =>
+    keys.find((key) => (kid ? key.kid === kid : key.use !== 'enc'));
+
+  let key =
+    jwksCache && jwksCache.uri === metadata.jwks_uri && jwksCache.expiresAt > Date.now()
+      ? pick(jwksCache.keys)
+      : undefined;
+
+  // Unknown key ids usually mean the provider rotated its keys, so fetch them again
+  if (!key) {
+    const { keys } = await requestJson<{ keys: crypto.JsonWebKey[] }>(metadata.jwks_uri);
+    jwksCache = { uri: metadata.jwks_uri, keys, expiresAt: Date.now() + DISCOVERY_TTL_MS };
+    key = pick(keys);
+  }
+
+  if (!key) {
+    throw new AppError('Single sign-on token was signed with an unknown key', 401);
+  }
+  return crypto.createPublicKey({ key, format: 'jwk' });
+};
+
+const base64Url = (buffer: Buffer): string =>
+  buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Remember state, nonce and PKCE verifier server-side and return the provider's login URL.
+ * The binding stays with the browser and must come back with the callback, so a callback
+ * started by someone else can't sign this browser into their account.
+ */
+export const buildAuthorizationUrl = async (
+  settings: OidcSettings
+): Promise<{ authorizationUrl: string; binding: string }> => {
+  const metadata = await discover(settings);
+  const state = base64Url(crypto.randomBytes(32));
+  const binding = base64Url(crypto.randomBytes(32));
+  const nonce = base64Url(crypto.randomBytes(32));
+  const codeVerifier = base64Url(crypto.randomBytes(48));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  await OidcStateModel.create({
+    stateHash: hashToken(state),
+    bindingHash: hashToken(binding),
+    nonce,
+    codeVerifier,
+    expiresAt: new Date(Date.now() + STATE_TTL_MS)
+  });
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: settings.clientId,
+    redirect_uri: settings.redirectUri,
+    scope: settings.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  });
+  return {
+    authorizationUrl: `${metadata.authorization_endpoint}?${params.toString()}`,
+    binding
+  };
+};
+
+// Redeem the code from the callback and return the verified identity behind it
+export const completeAuthorization = async (
+  settings: OidcSettings,
+  code: string,
+  state: string,
+  binding: string
+): Promise<OidcIdentity> => {
+  // Each state can be used once, and only by the browser it was issued to
+  const pending = await OidcStateModel.findOneAndDelete(
+    {
+      stateHash: hashToken(state),
+      bindingHash: hashToken(binding),
+      expiresAt: { $gt: new Date() }
+    },
+    { lean: true }
+  );
+  if (!pending) {
+    throw new AppError('Single sign-on attempt has expired. Please try again', 400);
+  }
+
+  const metadata = await discover(settings);
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: settings.redirectUri,
+    code_verifier: pending.codeVerifier
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+  if (settings.tokenAuthMethod === 'client_secret_basic') {
+    const credentials = `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(
+      settings.clientSecret || ''
+    )}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', settings.clientId);
+    if (settings.clientSecret) body.set('client_secret', settings.clientSecret);
+  }
+
+  const tokens = await requestJson<{ id_token?: string; access_token?: string }>(
+    metadata.token_endpoint,
+    { method: 'POST', headers, body: body.toString() }
+  );
+  if (!tokens.id_token) {
+    throw new AppError('Single sign-on provider did not return an ID token', 502);
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new AppError('Single sign-on provider returned an invalid ID token', 401);
+  }
+
+  let claims: jwt.JwtPayload;
+  try {
+    const key = await findSigningKey(metadata, decoded.header.kid);
+    claims = jwt.verify(tokens.id_token, key, {
+      algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'PS256'],
+      issuer: metadata.issuer,
+      audience: settings.clientId
+    }) as jwt.JwtPayload;
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Single sign-on ID token could not be verified', 401);
+  }
+
+  if (claims.nonce !== pending.nonce) {
+    throw new AppError('Single sign-on ID token could not be verified', 401);
+  }
+
+  // Some providers only put the email in the userinfo response
+  let email = claims.email as string | undefined;
+  let emailVerified = claims.email_verified as boolean | undefined;
+  let name = claims.name as string | undefined;
+  if (!email && metadata.userinfo_endpoint && tokens.access_token) {
+    const info = await requestJson<{
+      sub?: string;
+      email?: string;
+      email_verified?: boolean;
+      name?: string;
+    }>(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` }
+    });
+    if (info.sub === claims.sub) {
+      email = info.email;
+      emailVerified = info.email_verified;
+      name = name || info.name;
+    }
+  }
+
+  if (!email || emailVerified === false) {
+    throw new AppError('Your single sign-on account has no verified email address', 403);
+  }
+
+  return {
+    issuer: metadata.issuer,
+    subject: String(claims.sub),
+    email: email.toLowerCase().trim(),
+    name
+  };
+};
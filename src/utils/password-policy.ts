@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { COMMON_PASSWORDS } from './common-passwords';
+
+const flag = (value: string | undefined, fallback: boolean): boolean =>
+  value === undefined || value === '' ? fallback : value === 'true';
+
+// Unlike `parseInt(...) || fallback`, an explicit 0 is kept
+const count = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '');
+  return isNaN(parsed) ? fallback : Math.max(parsed, 0);
+};
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  // Previous passwords that may not be reused, not counting the current one
+  historySize: number;
+  // Days before a password must be changed at the next login; 0 turns expiry off
+  maxAgeDays: number;
+}
+
+export const getPasswordPolicy = (): PasswordPolicy => ({
+  minLength: Math.max(parseInt(process.env.PASSWORD_MIN_LENGTH || '') || 8, 8),
+  requireUppercase: flag(process.env.PASSWORD_REQUIRE_UPPERCASE, true),
+  requireLowercase: flag(process.env.PASSWORD_REQUIRE_LOWERCASE, true),
+  requireNumber: flag(process.env.PASSWORD_REQUIRE_NUMBER, true),
+  requireSymbol: flag(process.env.PASSWORD_REQUIRE_SYMBOL, false),
+  historySize: count(process.env.PASSWORD_HISTORY_SIZE, 5),
+  maxAgeDays: count(process.env.PASSWORD_MAX_AGE_DAYS, 0)
+});
+
+// Cost factor for new hashes; existing hashes keep the cost they were made with
+export const getBcryptRounds = (): number => {
+  const rounds = parseInt(process.env.BCRYPT_ROUNDS || '') || 12;
+  return Math.min(Math.max(rounds, 10), 15);
+};
+
+export const hashPassword = (password: string): Promise<string> =>
+  bcrypt.hash(password, getBcryptRounds());
+
+const isCommonPassword = (password: string): boolean => {
+  const lowered = password.toLowerCase();
+  const stripped = lowered.replace(/[^a-z]+$/, '').replace(/^[^a-z]+/, '');
+  return COMMON_PASSWORDS.has(lowered) || (stripped !== '' && COMMON_PASSWORDS.has(stripped));
+};
+
+/**
+ * Everything wrong with a proposed password under the current policy; empty when it is
+ * acceptable. Reuse is checked separately because it needs the stored hashes.
+ */
+export const checkPasswordStrength = (
+  password: string,
+  owner: { name?: string; email?: string } = {}
+): string[] => {
+  const policy = getPasswordPolicy();
+  const problems: string[] = [];
+
+  if (password.length < policy.minLength) {
+    problems.push(`be at least ${policy.minLength} characters long`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    problems.push('contain an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    problems.push('contain a lowercase letter');
+  }
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    problems.push('contain a number');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    problems.push('contain a symbol');
+  }
+  if (isCommonPassword(password)) {
+    problems.push('not be a commonly used password');
+  }
+
+  // Names and the mailbox part of the email are the first things an attacker tries
+  const lowered = password.toLowerCase();
+  const personal = [owner.email?.split('@')[0] || '', ...(owner.name?.split(/\s+/) || [])];
+  if (personal.some((part) => part.length >= 4 && lowered.includes(part.toLowerCase()))) {
+    problems.push('not contain your name or email address');
+  }
+
+  return problems;
+};
+
+export const describePasswordProblems = (problems: string[]): string =>
+  `Password must ${problems.join(', ')}`;
+
+// True when the plain password matches any of the given bcrypt hashes
+export const matchesAnyHash = async (password: string, hashes: string[]): Promise<boolean> => {
+  for (const hash of hashes) {
+    if (hash && (await bcrypt.compare(password, hash))) return true;
+  }
+  return false;
+};
+
+export const isPasswordExpired = (changedAt?: Date): boolean => {
+  const { maxAgeDays } = getPasswordPolicy();
+  if (!maxAgeDays || !changedAt) return false;
+  return Date.now() - changedAt.getTime() > maxAgeDays * 24 * 60 * 60 * 1000;
+};
+
+// Random password that satisfies any policy, for accounts whose owner sets their own later
+export const generateTemporaryPassword = (): string => {
+  const { minLength } = getPasswordPolicy();
+  const random = crypto
+    .randomBytes(Math.max(minLength, 16))
+    .toString('base64')
+    .replace(/[^A-Za-z0-9]/g, '');
+  return `${random}-Aa1`;
+};
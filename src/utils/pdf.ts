@@ -0,0 +1,36 @@
+import puppeteer, { Browser } from 'puppeteer';
+
+export const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const formatDate = (value?: Date): string =>
+  value ? new Date(value).toLocaleDateString('en-IN', { dateStyle: 'medium' }) : '-';
+
+export const renderPdf = async (browser: Browser, html: string): Promise<Buffer> => {
+  const page = await browser.newPage();
+  try {
+    await page.setContent(html, { waitUntil: 'load' });
+    const pdf = await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      margin: { top: '1.5cm', right: '1.5cm', bottom: '1.5cm', left: '1.5cm' }
+    });
+    return Buffer.from(pdf);
+  } finally {
+    await page.close();
+  }
+};
+
+// One browser for the whole job; starting Chromium is by far the slowest step
+export const withBrowser = async <T>(fn: (browser: Browser) => Promise<T>): Promise<T> => {
+  const browser = await puppeteer.launch();
+  try {
+    return await fn(browser);
+  } finally {
+    await browser.close();
+  }
+};
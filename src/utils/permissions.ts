@@ -0,0 +1,270 @@
+import { RoleModel } from '../models/role.model';
+
+// Every permission the API checks, as resource:action
+export const PERMISSIONS = [
+  'users:read',
+  'users:create',
+  'users:update',
+  'users:delete',
+  'users:deactivate',
+  'users:import',
+  'users:export',
+  'users:assign-roles',
+  'users:unlock',
+  'users:reset-2fa',
+  'users:impersonate',
+  'impersonation-logs:read',
+  'audit:read',
+  'audit:export',
+  'login-attempts:read',
+  'sessions:manage',
+  'roles:manage',
+  'invitations:manage',
+  'api-keys:manage',
+  'settings:manage',
+  'departments:read',
+  'departments:create',
+  'departments:update',
+  'departments:delete',
+  'departments:import',
+  'departments:export',
+  'faculty:read',
+  'faculty:create',
+  'faculty:update',
+  'faculty:delete',
+  'faculty:import',
+  'faculty:export',
+  'students:read',
+  'students:create',
+  'students:update',
+  'students:delete',
+  'students:import',
+  'students:export',
+  'students:sync',
+  'students:merge',
+  'results:read',
+  'results:import',
+  'results:export',
+  'results:delete',
+  'projects:import',
+  'projects:delete',
+  'projects:evaluate',
+  'projects:certify',
+  'project-events:manage',
+  'project-locations:manage',
+  'project-teams:manage',
+  'documents:review',
+  'documents:issue',
+  'subjects:read',
+  'subjects:manage',
+  'attendance:read',
+  'attendance:mark',
+  'alumni:read',
+  'alumni:manage'
+] as const;
+
+// Roles the application relies on; used when no Role document overrides them
+export interface ResolvedRole {
+  permissions: string[];
+  scope: 'institute' | 'department';
+  requireTwoFactor: boolean;
+}
+
+export const BUILT_IN_ROLES: Record<string, { description: string } & ResolvedRole> = {
+  admin: {
+    description: 'Full access to every resource',
+    permissions: ['*'],
+    scope: 'institute',
+    requireTwoFactor: false
+  },
+  principal: {
+    description: 'Institute-wide academic administration',
+    permissions: [
+      'departments:*',
+      'faculty:*',
+      'students:read',
+      'students:update',
+      'students:export',
+      'results:read',
+      'results:export',
+      'documents:issue',
+      'subjects:read',
+      'subjects:manage',
+      'attendance:read',
+      'alumni:read',
+      'alumni:manage'
+    ],
+    scope: 'institute',
+    requireTwoFactor: false
+  },
+  hod: {
+    description: 'Head of department',
+    permissions: [
+      'students:read',
+      'students:update',
+      'students:export',
+      'results:read',
+      'results:export',
+      'documents:review',
+      'subjects:read',
+      'subjects:manage',
+      'attendance:read',
+      'attendance:mark',
+      'alumni:read',
+      'alumni:manage'
+    ],
+    scope: 'department',
+    requireTwoFactor: false
+  },
+  faculty: {
+    description: 'Teaching staff',
+    permissions: [
+      'students:read',
+      'students:export',
+      'results:read',
+      'subjects:read',
+      'attendance:read',
+      'attendance:mark'
+    ],
+    scope: 'department',
+    requireTwoFactor: false
+  },
+  jury: {
+    description: 'Project fair evaluator',
+    permissions: ['projects:evaluate'],
+    scope: 'institute',
+    requireTwoFactor: false
+  },
+  student: {
+    description: 'Enrolled student',
+    permissions: [],
+    scope: 'institute',
+    requireTwoFactor: false
+  }
+};
+
+// What the built-in roles granted when role documents were first seeded, before the
+// documents recorded it themselves
+const FIRST_SEEDED_PERMISSIONS: Record<string, string[]> = {
+  admin: ['*'],
+  principal: [
+    'departments:*',
+    'faculty:*',
+    'students:read',
+    'students:update',
+    'students:export',
+    'results:read',
+    'results:export'
+  ],
+  hod: ['students:read', 'students:update', 'students:export', 'results:read', 'results:export'],
+  faculty: ['students:read', 'students:export', 'results:read'],
+  jury: ['projects:evaluate'],
+  student: []
+};
+
+const PERMISSION_PATTERN = /^(\*|[a-z-]+:(\*|[a-z-]+))$/;
+
+export const isValidPermission = (permission: string): boolean =>
+  PERMISSION_PATTERN.test(permission);
+
+// Grants match exactly, by resource wildcard (results:*) or globally (*)
+export const grants = (granted: string[], required: string): boolean => {
+  const [resource] = required.split(':');
+  return granted.some(
+    (permission) => permission === '*' || permission === required || permission === `${resource}:*`
+  );
+};
+
+const CACHE_TTL_MS = 60 * 1000;
+const roleCache = new Map<string, ResolvedRole & { expiresAt: number }>();
+
+export const clearPermissionCache = (): void => {
+  roleCache.clear();
+};
+
+// Role documents take precedence so admins can edit built-in roles as well as add new ones.
+// The admin role always keeps full access so nobody can lock the portal out of role management.
+export const resolveRole = async (roleName: string): Promise<ResolvedRole> => {
+  const cached = roleCache.get(roleName);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+
+  const role = await RoleModel.findOne({ name: roleName }).lean();
+  const builtIn = BUILT_IN_ROLES[roleName];
+  const defined = (role?.permissions || []).filter(isValidPermission);
+
+  // Role documents from before resource:action permissions only hold bare CRUD verbs
+  let permissions = defined.length > 0 || (role && !builtIn) ? defined : builtIn?.permissions || [];
+  if (roleName === 'admin') {
+    permissions = BUILT_IN_ROLES.admin.permissions;
+  }
+  const scope = role?.scope || builtIn?.scope || 'institute';
+  const requireTwoFactor = role?.requireTwoFactor ?? builtIn?.requireTwoFactor ?? false;
+
+  const resolved = { permissions, scope, requireTwoFactor };
+  roleCache.set(roleName, { ...resolved, expiresAt: Date.now() + CACHE_TTL_MS });
+  return resolved;
+};
+
+export const resolvePermissions = async (roleName: string): Promise<string[]> =>
+  (await resolveRole(roleName)).permissions;
+
+// Two-factor is mandatory if any role the user holds demands it, since roles can be switched
+export const isTwoFactorRequired = async (roles: string[]): Promise<boolean> => {
+  const resolved = await Promise.all(roles.map((role) => resolveRole(role)));
+  return resolved.some((role) => role.requireTwoFactor);
+};
+
+// Returns the names in the list that are neither built in nor defined as a Role document
+export const findUnknownRoles = async (roles: string[]): Promise<string[]> => {
+  const candidates = roles.filter((role) => !(role in BUILT_IN_ROLES));
+  if (candidates.length === 0) return [];
+
+  const existing = await RoleModel.find({ name: { $in: candidates } }, { name: 1 }).lean();
+  const existingNames = new Set(existing.map((role) => role.name));
+  return candidates.filter((role) => !existingNames.has(role));
+};
+
+const sameSet = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((item) => b.includes(item));
+
+/**
+ * Bring role documents for the built-in roles up to date with permissions added since they
+ * were seeded. Untouched roles take the built-in list as is; roles an admin has edited keep
+ * their edits and only gain the permissions that did not exist when they were last synced.
+ */
+export const syncBuiltInRolePermissions = async (): Promise<string[]> => {
+  const roles = await RoleModel.find({ name: { $in: Object.keys(BUILT_IN_ROLES) } });
+  const updated: string[] = [];
+
+  for (const role of roles) {
+    const builtIn = BUILT_IN_ROLES[role.name].permissions;
+    const baseline = role.builtInPermissions || FIRST_SEEDED_PERMISSIONS[role.name] || [];
+    const current = role.permissions.filter(isValidPermission);
+
+    let permissions: string[];
+    if (current.length === 0 || sameSet(current, baseline)) {
+      permissions = builtIn;
+    } else {
+      const added = builtIn.filter((permission) => !baseline.includes(permission));
+      permissions = [...current, ...added.filter((permission) => !current.includes(permission))];
+    }
+
+    if (
+      sameSet(permissions, role.permissions) &&
+      role.builtInPermissions &&
+      sameSet(role.builtInPermissions, builtIn)
+    ) {
+      continue;
+    }
+
+    role.permissions = permissions;
+    role.builtInPermissions = builtIn;
+    await role.save();
+    updated.push(role.name);
+  }
+
+  if (updated.length > 0) clearPermissionCache();
+  return updated;
+};
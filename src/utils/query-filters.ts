@@ -0,0 +1,26 @@
+import mongoose from 'mongoose';
+import { AppError } from '../middleware/error.middleware';
+
+// Query string values are coerced to strings so a crafted query can't smuggle in operators
+export const parseObjectIdFilter = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === '' || value === 'all') return undefined;
+  if (!mongoose.Types.ObjectId.isValid(String(value))) {
+    throw new AppError(`Invalid ${field}`, 400);
+  }
+  return String(value);
+};
+
+// createdAt-style range from the from/to query values
+export const parseDateRange = (
+  from: unknown,
+  to: unknown
+): { $gte?: Date; $lte?: Date } | undefined => {
+  if (!from && !to) return undefined;
+  const range: { $gte?: Date; $lte?: Date } = {};
+  if (from) range.$gte = new Date(String(from));
+  if (to) range.$lte = new Date(String(to));
+  if (Object.values(range).some((date) => isNaN(date.getTime()))) {
+    throw new AppError('Invalid date range', 400);
+  }
+  return range;
+};
@@ -1,4 +1,6 @@
 import { DepartmentModel } from '../models/department.model';
+import { RoleModel } from '../models/role.model';
+import { BUILT_IN_ROLES, syncBuiltInRolePermissions } from './permissions';
 import mongoose from 'mongoose';
 
 const connectDB = async () => {
@@ -77,10 +79,34 @@ export const seedDepartments = async () => {
   }
 };
 
+// Create the built-in roles without overwriting permissions an admin has already edited
+export const seedRoles = async () => {
+  try {
+    const results = await Promise.all(
+      Object.entries(BUILT_IN_ROLES).map(([name, role]) =>
+        RoleModel.findOneAndUpdate(
+          { name },
+          { $setOnInsert: { name, ...role, builtInPermissions: role.permissions } },
+          { upsert: true, new: true }
+        )
+      )
+    );
+    await syncBuiltInRolePermissions();
+
+    console.log('Roles seeded successfully');
+    return results;
+
+  } catch (error) {
+    console.error('Error seeding roles:', error);
+    throw error;
+  }
+};
+
 // Run seed if this file is run directly
 if (require.main === module) {
   connectDB()
     .then(() => seedDepartments())
+    .then(() => seedRoles())
     .then(() => {
       console.log('Seeding completed');
       process.exit(0);
@@ -0,0 +1,212 @@
+import { ResultModel } from '../models/result.model';
+import { StudentModel } from '../models/student.model';
+
+export type SemesterStatus = 'CLEARED' | 'PENDING' | 'NOT_ATTEMPTED';
+export type SemesterStatusMap = Record<string, SemesterStatus>;
+
+// Diploma programmes run six semesters; sem7 and sem8 exist in the schema but are never reached
+export const MAX_SEMESTER = 6;
+const SEMESTER_KEYS = ['sem1', 'sem2', 'sem3', 'sem4', 'sem5', 'sem6', 'sem7', 'sem8'];
+const BATCH_SIZE = 500;
+
+interface ResultAttempt {
+  enrollmentNo: string;
+  semester: number;
+  result?: string;
+  declarationDate?: Date;
+  examid?: number;
+  subjects?: { code: string; isBacklog: boolean }[];
+}
+
+interface StoredStudent {
+  _id: unknown;
+  enrollmentNo: string;
+  fullName?: string;
+  semester?: number;
+  semesterStatus?: Partial<SemesterStatusMap>;
+  isPassAll?: boolean;
+}
+
+export interface ReconciliationChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface ReconciliationMismatch {
+  studentId: string;
+  enrollmentNo: string;
+  name?: string;
+  changes: Record<string, ReconciliationChange>;
+}
+
+export interface ReconciliationReport {
+  checked: number;
+  withoutResults: number;
+  mismatched: number;
+  updated: number;
+  dryRun: boolean;
+  mismatches: ReconciliationMismatch[];
+}
+
+// The semester after the latest one with any attempt, capped at the final semester
+export const calculateCurrentSemester = (semesterStatus: Partial<SemesterStatusMap>): number => {
+  for (let sem = MAX_SEMESTER; sem >= 1; sem--) {
+    const status = semesterStatus[`sem${sem}`];
+    if (status === 'CLEARED' || status === 'PENDING') {
+      return Math.min(sem + 1, MAX_SEMESTER);
+    }
+  }
+  return 1;
+};
+
+const byDeclaration = (a: ResultAttempt, b: ResultAttempt): number =>
+  new Date(a.declarationDate || 0).getTime() - new Date(b.declarationDate || 0).getTime() ||
+  (a.examid || 0) - (b.examid || 0);
+
+/**
+ * A semester is cleared once the latest attempt at every subject it ever listed is a pass.
+ * Remedial exams only list the failed subjects, so attempts are merged subject by subject.
+ */
+const deriveSemesterStatus = (attempts: ResultAttempt[]): SemesterStatus => {
+  if (attempts.length === 0) return 'NOT_ATTEMPTED';
+
+  const latestBySubject = new Map<string, boolean>();
+  for (const attempt of [...attempts].sort(byDeclaration)) {
+    for (const subject of attempt.subjects || []) {
+      latestBySubject.set(subject.code, subject.isBacklog);
+    }
+  }
+
+  // Older imports without subject columns only have the overall result to go on
+  if (latestBySubject.size === 0) {
+    const latest = [...attempts].sort(byDeclaration).pop()!;
+    return /^pass/i.test(latest.result || '') ? 'CLEARED' : 'PENDING';
+  }
+
+  return [...latestBySubject.values()].some(Boolean) ? 'PENDING' : 'CLEARED';
+};
+
+/**
+ * What the student's record should say given their result history. Semesters without any
+ * result keep their stored status, since those usually predate the results being imported.
+ */
+export const deriveStudentState = (stored: StoredStudent, attempts: ResultAttempt[]) => {
+  const semesterStatus: SemesterStatusMap = {};
+
+  for (const key of SEMESTER_KEYS) {
+    const sem = parseInt(key.slice(3));
+    const semesterAttempts = attempts.filter((attempt) => attempt.semester === sem);
+    semesterStatus[key] =
+      semesterAttempts.length > 0
+        ? deriveSemesterStatus(semesterAttempts)
+        : stored.semesterStatus?.[key] || 'NOT_ATTEMPTED';
+  }
+
+  const statuses = Object.values(semesterStatus);
+  return {
+    semesterStatus,
+    semester: calculateCurrentSemester(semesterStatus),
+    isPassAll: statuses.includes('CLEARED') && !statuses.includes('PENDING')
+  };
+};
+
+const compare = (stored: StoredStudent, derived: ReturnType<typeof deriveStudentState>) => {
+  const changes: Record<string, ReconciliationChange> = {};
+
+  for (const key of SEMESTER_KEYS) {
+    const from = stored.semesterStatus?.[key] || 'NOT_ATTEMPTED';
+    if (from !== derived.semesterStatus[key]) {
+      changes[`semesterStatus.${key}`] = { from, to: derived.semesterStatus[key] };
+    }
+  }
+  if ((stored.semester || 1) !== derived.semester) {
+    changes.semester = { from: stored.semester, to: derived.semester };
+  }
+  if (Boolean(stored.isPassAll) !== derived.isPassAll) {
+    changes.isPassAll = { from: Boolean(stored.isPassAll), to: derived.isPassAll };
+  }
+
+  return changes;
+};
+
+const reconcileBatch = async (
+  students: StoredStudent[],
+  report: ReconciliationReport
+): Promise<void> => {
+  const attempts = (await ResultModel.find({
+    enrollmentNo: { $in: students.map((student) => student.enrollmentNo) }
+  })
+    .select('enrollmentNo semester result declarationDate examid subjects.code subjects.isBacklog')
+    .lean()) as unknown as ResultAttempt[];
+
+  const attemptsByStudent = new Map<string, ResultAttempt[]>();
+  for (const attempt of attempts) {
+    const list = attemptsByStudent.get(attempt.enrollmentNo) || [];
+    list.push(attempt);
+    attemptsByStudent.set(attempt.enrollmentNo, list);
+  }
+
+  for (const student of students) {
+    report.checked++;
+    const history = attemptsByStudent.get(student.enrollmentNo);
+    if (!history) {
+      report.withoutResults++;
+      continue;
+    }
+
+    const derived = deriveStudentState(student, history);
+    const changes = compare(student, derived);
+    if (Object.keys(changes).length === 0) continue;
+
+    report.mismatched++;
+    report.mismatches.push({
+      studentId: String(student._id),
+      enrollmentNo: student.enrollmentNo,
+      name: student.fullName,
+      changes
+    });
+
+    if (!report.dryRun) {
+      // One update per student so each correction shows up in the audit log
+      await StudentModel.updateOne({ _id: student._id }, { $set: derived });
+      report.updated++;
+    }
+  }
+};
+
+/**
+ * Recompute semester statuses, current semester and isPassAll from imported results for the
+ * students matching the filter, and report every student whose stored values disagreed.
+ */
+export const reconcileSemesters = async (
+  filter: Record<string, unknown>,
+  options: { dryRun?: boolean } = {}
+): Promise<ReconciliationReport> => {
+  const report: ReconciliationReport = {
+    checked: 0,
+    withoutResults: 0,
+    mismatched: 0,
+    updated: 0,
+    dryRun: Boolean(options.dryRun),
+    mismatches: []
+  };
+
+  const cursor = StudentModel.find(filter)
+    .select('enrollmentNo fullName semester semesterStatus isPassAll')
+    .lean()
+    .cursor();
+
+  let batch: StoredStudent[] = [];
+  for await (const student of cursor) {
+    batch.push(student as unknown as StoredStudent);
+    if (batch.length === BATCH_SIZE) {
+      await reconcileBatch(batch, report);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    await reconcileBatch(batch, report);
+  }
+
+  return report;
+};
@@ -0,0 +1,538 @@
+import mongoose from 'mongoose';
+import { StudentModel } from '../models/student.model';
+import { UserModel } from '../models/user.model';
+import { ResultModel } from '../models/result.model';
+import { ProjectTeamModel } from '../models/project-team.model';
+import { ProfileChangeRequestModel } from '../models/profile-change-request.model';
+import { DocumentRequestModel } from '../models/document-request.model';
+import { AttendanceSessionModel } from '../models/attendance-session.model';
+import { AlumniProfileModel } from '../models/alumni-profile.model';
+import { StudentStatusChangeModel } from '../models/student-status-change.model';
+import { AppError } from '../middleware/error.middleware';
+import { endUserSessions } from './token.utils';
+import { getProfileValue } from './student-profile';
+
+export const DEFAULT_MIN_DUPLICATE_SCORE = 50;
+
+// Before enrollmentSource was recorded the portal issued YYYY plus a four digit counter
+const LEGACY_GENERATED_ENROLLMENT = /^\d{8}$/;
+
+const SEMESTER_RANK: Record<string, number> = { NOT_ATTEMPTED: 0, PENDING: 1, CLEARED: 2 };
+
+// Copied from the duplicate only where the kept record has no value
+const FILLABLE_FIELDS = [
+  'firstName',
+  'middleName',
+  'lastName',
+  'fullName',
+  'personalEmail',
+  'aadharNo',
+  'gender',
+  'category',
+  'convoYear',
+  'guardian.name',
+  'guardian.relation',
+  'guardian.contact',
+  'guardian.occupation',
+  'contact.mobile',
+  'contact.email',
+  'contact.address',
+  'contact.city',
+  'contact.state',
+  'contact.pincode'
+];
+
+interface CandidateStudent {
+  _id: mongoose.Types.ObjectId;
+  userId?: { _id: mongoose.Types.ObjectId; email: string } | null;
+  enrollmentNo?: string;
+  enrollmentSource?: string;
+  fullName?: string;
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+  personalEmail?: string;
+  institutionalEmail?: string;
+  contact?: { email?: string };
+  aadharNo?: string;
+  departmentId?: mongoose.Types.ObjectId;
+  admissionYear?: number;
+  batch?: string;
+  status?: string;
+}
+
+export interface DuplicatePair {
+  score: number;
+  reasons: string[];
+  students: {
+    _id: string;
+    enrollmentNo?: string;
+    name: string;
+    email?: string;
+    batch?: string;
+    status?: string;
+  }[];
+}
+
+// A record still waiting for its number loses to any number
+const isAutoGenerated = (student: { enrollmentNo?: string; enrollmentSource?: string }) =>
+  !student.enrollmentNo ||
+  student.enrollmentSource === 'generated' ||
+  (!student.enrollmentSource && LEGACY_GENERATED_ENROLLMENT.test(student.enrollmentNo));
+
+const displayName = (student: CandidateStudent): string =>
+  student.fullName ||
+  [student.firstName, student.middleName, student.lastName].filter(Boolean).join(' ');
+
+// GTU lists surname first while manual entries usually don't, so token order is ignored
+const nameTokens = (student: CandidateStudent): string[] =>
+  displayName(student)
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort();
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for the same name; a missing middle name still counts as a close match
+export const nameSimilarity = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const joinedA = a.join(' ');
+  const joinedB = b.join(' ');
+  const ratio = 1 - levenshtein(joinedA, joinedB) / Math.max(joinedA.length, joinedB.length);
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const isSubset = shorter.length >= 2 && shorter.every((token) => longer.includes(token));
+  return isSubset ? Math.max(ratio, 0.9) : ratio;
+};
+
+const emailsOf = (student: CandidateStudent): Set<string> =>
+  new Set(
+    [
+      student.personalEmail,
+      student.institutionalEmail,
+      student.contact?.email,
+      student.userId?.email
+    ]
+      .filter((email): email is string => Boolean(email && email.trim()))
+      .map((email) => email.trim().toLowerCase())
+  );
+
+const normalizeAadhar = (value?: string): string | undefined => {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits.length === 12 ? digits : undefined;
+};
+
+const normalizeEnrollment = (value?: string): string | undefined =>
+  value?.replace(/\s+/g, '').toLowerCase() || undefined;
+
+const scorePair = (
+  a: CandidateStudent,
+  b: CandidateStudent
+): { score: number; reasons: string[] } => {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const aadhar = normalizeAadhar(a.aadharNo);
+  if (aadhar && aadhar === normalizeAadhar(b.aadharNo)) {
+    score += 60;
+    reasons.push('Same Aadhaar number');
+  }
+
+  const emailsB = emailsOf(b);
+  const sharedEmail = [...emailsOf(a)].find((email) => emailsB.has(email));
+  if (sharedEmail) {
+    score += 45;
+    reasons.push(`Same email address (${sharedEmail})`);
+  }
+
+  const enrollment = normalizeEnrollment(a.enrollmentNo);
+  if (enrollment && enrollment === normalizeEnrollment(b.enrollmentNo)) {
+    score += 50;
+    reasons.push('Enrollment numbers differ only in case or spacing');
+  }
+
+  const similarity = nameSimilarity(nameTokens(a), nameTokens(b));
+  if (similarity >= 0.9) {
+    score += 35;
+  } else if (similarity >= 0.75) {
+    score += 20;
+  }
+  if (similarity >= 0.75) {
+    reasons.push(`Names are ${Math.round(similarity * 100)}% similar`);
+  }
+
+  const sameCohort =
+    String(a.departmentId) === String(b.departmentId) && a.admissionYear === b.admissionYear;
+  if (sameCohort) {
+    score += 5;
+    if (isAutoGenerated(a) !== isAutoGenerated(b)) {
+      score += 15;
+      reasons.push('One enrollment number was generated by the portal rather than issued by GTU');
+    }
+  }
+
+  return { score: Math.min(score, 100), reasons };
+};
+
+const summarize = (student: CandidateStudent) => ({
+  _id: String(student._id),
+  enrollmentNo: student.enrollmentNo,
+  name: displayName(student),
+  email: student.userId?.email || student.institutionalEmail,
+  batch: student.batch,
+  status: student.status
+});
+
+/**
+ * Score every pair of students that share an Aadhaar number, an email address or an
+ * enrollment number, or were admitted to the same department in the same year.
+ */
+export const findDuplicateStudents = async (
+  filter: Record<string, unknown>,
+  minScore = DEFAULT_MIN_DUPLICATE_SCORE
+): Promise<DuplicatePair[]> => {
+  const students = (await StudentModel.find(filter)
+    .select([
+      'userId enrollmentNo enrollmentSource fullName firstName middleName lastName',
+      'personalEmail institutionalEmail contact.email aadharNo',
+      'departmentId admissionYear batch status'
+    ].join(' '))
+    .populate('userId', 'email')
+    .lean()) as unknown as CandidateStudent[];
+
+  const blocks = new Map<string, number[]>();
+  const addToBlock = (key: string, index: number) => {
+    const block = blocks.get(key) || [];
+    block.push(index);
+    blocks.set(key, block);
+  };
+
+  students.forEach((student, index) => {
+    const aadhar = normalizeAadhar(student.aadharNo);
+    if (aadhar) addToBlock(`aadhar:${aadhar}`, index);
+    for (const email of emailsOf(student)) addToBlock(`email:${email}`, index);
+    const enrollment = normalizeEnrollment(student.enrollmentNo);
+    if (enrollment) addToBlock(`enrollment:${enrollment}`, index);
+    addToBlock(`cohort:${student.departmentId}:${student.admissionYear}`, index);
+  });
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const key = `${block[i]}:${block[j]}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const a = students[block[i]];
+        const b = students[block[j]];
+        const { score, reasons } = scorePair(a, b);
+        if (score >= minScore) {
+          pairs.push({ score, reasons, students: [summarize(a), summarize(b)] });
+        }
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score);
+};
+
+// Accounts whose emails differ only in case; the lowercase setter doesn't fix older data
+export const findDuplicateUserAccounts = async () =>
+  UserModel.aggregate([
+    {
+      $group: {
+        _id: { $toLower: { $trim: { input: '$email' } } },
+        users: { $push: { _id: '$_id', email: '$email', name: '$name', roles: '$roles' } },
+        count: { $sum: 1 }
+      }
+    },
+    { $match: { count: { $gt: 1 } } },
+    { $project: { _id: 0, email: '$_id', users: 1 } },
+    { $sort: { email: 1 } }
+  ]);
+
+export interface MergeReport {
+  dryRun: boolean;
+  primary: string;
+  duplicate: string;
+  enrollmentNo: { kept?: string; replaced?: string };
+  fieldsFilled: string[];
+  results: { moved: number; dropped: number };
+  teams: number;
+  profileChangeRequests: number;
+  documentRequests: number;
+  attendanceSessions: number;
+  statusChanges: number;
+  alumniProfile: 'none' | 'kept' | 'taken-from-duplicate';
+  userAccount: {
+    kept?: string;
+    duplicate?: string;
+    action: 'none' | 'deactivated' | 'role-removed';
+  };
+}
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Fold the duplicate student into the primary one: blank fields are filled from the duplicate,
+ * results, team memberships, requests, attendance, status history and the alumni profile move
+ * to the primary record, and the duplicate's account is deactivated. The GTU-issued enrollment
+ * number wins over a generated one.
+ */
+export const mergeStudents = async (
+  primaryId: string,
+  duplicateId: string,
+  actorId: string,
+  options: { dryRun?: boolean } = {}
+): Promise<MergeReport> => {
+  if (primaryId === duplicateId) {
+    throw new AppError('A student cannot be merged with itself', 400);
+  }
+
+  const [primary, duplicate] = await Promise.all([
+    StudentModel.findById(primaryId),
+    StudentModel.findById(duplicateId)
+  ]);
+  if (!primary || !duplicate) {
+    throw new AppError('No student found with that ID', 404);
+  }
+
+  const takeDuplicateEnrollment =
+    isAutoGenerated(primary) && !isAutoGenerated(duplicate);
+  const [keptEnrollment, replacedEnrollment] = takeDuplicateEnrollment
+    ? [duplicate.enrollmentNo, primary.enrollmentNo]
+    : [primary.enrollmentNo, duplicate.enrollmentNo];
+
+  const fieldsFilled = FILLABLE_FIELDS.filter(
+    (path) => isEmpty(getProfileValue(primary, path)) && !isEmpty(getProfileValue(duplicate, path))
+  );
+  if (primary.educationBackground.length === 0 && duplicate.educationBackground.length > 0) {
+    fieldsFilled.push('educationBackground');
+  }
+
+  const keptUserId = primary.userId || duplicate.userId;
+  const duplicateUserId =
+    duplicate.userId && String(duplicate.userId) !== String(keptUserId)
+      ? duplicate.userId
+      : undefined;
+  const duplicateUser = duplicateUserId ? await UserModel.findById(duplicateUserId) : null;
+  const userAction = !duplicateUser
+    ? 'none'
+    : duplicateUser.roles.every((role) => role === 'student')
+      ? 'deactivated'
+      : 'role-removed';
+
+  // Results are keyed by enrollment number; an exam both records have results for is kept once
+  const keptExams = keptEnrollment
+    ? (await ResultModel.find({ enrollmentNo: keptEnrollment }).select('examid').lean()).map(
+        (result) => result.examid
+      )
+    : [];
+  const movesResults = Boolean(keptEnrollment && replacedEnrollment);
+  const resultFilter = { enrollmentNo: replacedEnrollment, examid: { $nin: keptExams } };
+  const droppedFilter = { enrollmentNo: replacedEnrollment, examid: { $in: keptExams } };
+
+  const memberUserIds = [primary.userId, duplicate.userId].filter(Boolean);
+  const teamFilter = {
+    $or: [
+      { 'members.userId': { $in: memberUserIds } },
+      ...(replacedEnrollment ? [{ 'members.enrollmentNo': replacedEnrollment }] : [])
+    ]
+  };
+
+  const [
+    moved,
+    dropped,
+    teams,
+    profileChangeRequests,
+    documentRequests,
+    attendanceSessions,
+    statusChanges,
+    primaryProfile,
+    duplicateProfile
+  ] = await Promise.all([
+    movesResults ? ResultModel.countDocuments(resultFilter) : 0,
+    movesResults ? ResultModel.countDocuments(droppedFilter) : 0,
+    ProjectTeamModel.find(teamFilter),
+    ProfileChangeRequestModel.countDocuments({ student: duplicate._id }),
+    DocumentRequestModel.countDocuments({ student: duplicate._id }),
+    AttendanceSessionModel.countDocuments({ 'records.student': duplicate._id }),
+    StudentStatusChangeModel.countDocuments({ student: duplicate._id }),
+    AlumniProfileModel.findOne({ student: primary._id }),
+    AlumniProfileModel.findOne({ student: duplicate._id })
+  ]);
+
+  // One alumni profile per student: the most recent response wins, else the primary's
+  const respondedAt = (profile: typeof primaryProfile) => profile?.respondedAt?.getTime() || 0;
+  const takeDuplicateProfile = Boolean(
+    duplicateProfile &&
+      (!primaryProfile || respondedAt(duplicateProfile) > respondedAt(primaryProfile))
+  );
+
+  const report: MergeReport = {
+    dryRun: Boolean(options.dryRun),
+    primary: String(primary._id),
+    duplicate: String(duplicate._id),
+    enrollmentNo: { kept: keptEnrollment, replaced: replacedEnrollment },
+    fieldsFilled,
+    results: { moved, dropped },
+    teams: teams.length,
+    profileChangeRequests,
+    documentRequests,
+    attendanceSessions,
+    statusChanges,
+    alumniProfile: takeDuplicateProfile ? 'taken-from-duplicate' : primaryProfile ? 'kept' : 'none',
+    userAccount: {
+      kept: keptUserId ? String(keptUserId) : undefined,
+      duplicate: duplicateUserId ? String(duplicateUserId) : undefined,
+      action: userAction
+    }
+  };
+  if (options.dryRun) return report;
+
+  // Nothing is written until the merged record is known to be valid
+  for (const path of fieldsFilled) {
+    primary.set(path, getProfileValue(duplicate, path));
+  }
+  for (const [sem, status] of Object.entries(duplicate.toObject().semesterStatus || {})) {
+    const current = primary.get(`semesterStatus.${sem}`);
+    if ((SEMESTER_RANK[status as string] || 0) > (SEMESTER_RANK[current] || 0)) {
+      primary.set(`semesterStatus.${sem}`, status);
+    }
+  }
+  primary.semester = Math.max(primary.semester, duplicate.semester);
+  primary.isPassAll = primary.isPassAll || duplicate.isPassAll;
+  if (takeDuplicateEnrollment) {
+    primary.enrollmentNo = duplicate.enrollmentNo;
+    primary.enrollmentSource = duplicate.enrollmentSource;
+    primary.institutionalEmail = duplicate.institutionalEmail;
+    primary.admissionYear = duplicate.admissionYear;
+  }
+  if (keptUserId) primary.userId = keptUserId;
+
+  await primary.validate();
+
+  // The primary is saved before anything moves, so a failure leaves the duplicate intact.
+  // Taking over the duplicate's enrollment number means releasing it from the duplicate first.
+  if (takeDuplicateEnrollment) {
+    await StudentModel.updateOne(
+      { _id: duplicate._id },
+      { $unset: { enrollmentNo: 1, institutionalEmail: 1 } }
+    );
+  }
+  try {
+    await primary.save();
+  } catch (error) {
+    if (takeDuplicateEnrollment) {
+      await StudentModel.updateOne(
+        { _id: duplicate._id },
+        {
+          $set: {
+            enrollmentNo: duplicate.enrollmentNo,
+            institutionalEmail: duplicate.institutionalEmail
+          }
+        }
+      );
+    }
+    throw error;
+  }
+
+  // Results
+  if (movesResults) {
+    await ResultModel.deleteMany(droppedFilter);
+    await ResultModel.updateMany(resultFilter, { $set: { enrollmentNo: keptEnrollment } });
+  }
+
+  // Team memberships; a team holding both accounts keeps one member and its leader flag
+  for (const team of teams) {
+    const keptMember = team.members.find(
+      (member) => keptUserId && String(member.userId) === String(keptUserId)
+    );
+    const removed = new Set<unknown>();
+    for (const member of team.members) {
+      const isDuplicateMember =
+        duplicateUserId && String(member.userId) === String(duplicateUserId);
+      if (isDuplicateMember && keptMember && member !== keptMember) {
+        keptMember.isLeader = keptMember.isLeader || member.isLeader;
+        removed.add(member);
+        continue;
+      }
+      if (isDuplicateMember && keptUserId) member.userId = keptUserId;
+      if (replacedEnrollment && keptEnrollment && member.enrollmentNo === replacedEnrollment) {
+        member.enrollmentNo = keptEnrollment;
+      }
+    }
+    team.members = team.members.filter((member) => !removed.has(member));
+    await team.save();
+  }
+
+  // Requests and attendance
+  await ProfileChangeRequestModel.updateMany(
+    { student: duplicate._id },
+    { $set: { student: primary._id } }
+  );
+  await DocumentRequestModel.updateMany(
+    { student: duplicate._id },
+    { $set: { student: primary._id } }
+  );
+  await AttendanceSessionModel.updateMany(
+    { 'records.student': { $all: [duplicate._id, primary._id] } },
+    { $pull: { records: { student: duplicate._id } } }
+  );
+  await AttendanceSessionModel.updateMany(
+    { 'records.student': duplicate._id },
+    { $set: { 'records.$[record].student': primary._id } },
+    { arrayFilters: [{ 'record.student': duplicate._id }] }
+  );
+
+  // Status history and alumni outcomes
+  await StudentStatusChangeModel.updateMany(
+    { student: duplicate._id },
+    { $set: { student: primary._id } }
+  );
+  if (takeDuplicateProfile) {
+    if (primaryProfile) await AlumniProfileModel.deleteOne({ _id: primaryProfile._id });
+    await AlumniProfileModel.updateOne(
+      { _id: duplicateProfile!._id },
+      { $set: { student: primary._id } }
+    );
+  } else if (duplicateProfile) {
+    await AlumniProfileModel.deleteOne({ _id: duplicateProfile._id });
+  }
+
+  // Removed last, once nothing refers to it any more
+  await StudentModel.findByIdAndDelete(duplicate._id);
+
+  // Accounts are deactivated rather than deleted so their audit history stays attached
+  if (duplicateUser && userAction === 'deactivated') {
+    duplicateUser.status = 'deactivated';
+    duplicateUser.statusReason = `Merged into student ${keptEnrollment}`;
+    duplicateUser.statusChangedAt = new Date();
+    duplicateUser.statusChangedBy = actorId;
+    await duplicateUser.save({ validateBeforeSave: false });
+    await endUserSessions(duplicateUser._id.toString(), 'forced-logout', undefined, actorId);
+  } else if (duplicateUser) {
+    await UserModel.updateOne({ _id: duplicateUser._id }, { $pull: { roles: 'student' } });
+  }
+
+  return report;
+};
@@ -0,0 +1,110 @@
+import { StudentModel } from '../models/student.model';
+import {
+  STUDENT_STATUSES,
+  StudentStatus,
+  StudentStatusChangeModel,
+  IStudentStatusChange
+} from '../models/student-status-change.model';
+import { AppError } from '../middleware/error.middleware';
+
+// Where each status may move next; graduation and transfer are final
+export const STATUS_TRANSITIONS: Record<StudentStatus, StudentStatus[]> = {
+  active: ['inactive', 'graduated', 'transferred', 'dropped'],
+  inactive: ['active', 'transferred', 'dropped'],
+  dropped: ['active'],
+  graduated: [],
+  transferred: []
+};
+
+export interface StatusChangeInput {
+  status: StudentStatus;
+  reason?: string;
+  effectiveDate?: string | Date;
+  destinationInstitute?: string;
+  convoYear?: number;
+}
+
+type StudentDocument = InstanceType<typeof StudentModel>;
+
+// The diploma runs six semesters; isPassAll only says nothing is pending so far
+const PROGRAMME_SEMESTERS = ['sem1', 'sem2', 'sem3', 'sem4', 'sem5', 'sem6'];
+
+const hasClearedProgramme = (student: StudentDocument): boolean =>
+  PROGRAMME_SEMESTERS.every((sem) => student.get(`semesterStatus.${sem}`) === 'CLEARED');
+
+const parseEffectiveDate = (value?: string | Date): Date | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new AppError('Invalid effective date', 400);
+  }
+  if (date.getTime() > Date.now()) {
+    throw new AppError('The effective date cannot be in the future', 400);
+  }
+  return date;
+};
+
+/**
+ * Move the student to a new status if the transition is allowed and carries what it needs:
+ * a transfer names the destination institute, dropping out a date and reason, and
+ * graduation requires every semester to be cleared. Each change is added to the history.
+ */
+export const changeStudentStatus = async (
+  student: StudentDocument,
+  input: StatusChangeInput,
+  actorId?: string
+): Promise<IStudentStatusChange> => {
+  const from = (student.status || 'active') as StudentStatus;
+  const to = input.status;
+
+  if (!STUDENT_STATUSES.includes(to)) {
+    throw new AppError(`Status must be one of: ${STUDENT_STATUSES.join(', ')}`, 400);
+  }
+  if (from === to) {
+    throw new AppError(`This student is already ${to}`, 400);
+  }
+  if (!STATUS_TRANSITIONS[from].includes(to)) {
+    throw new AppError(`A student who is ${from} cannot be marked ${to}`, 400);
+  }
+
+  const reason = input.reason?.trim() || undefined;
+  const destinationInstitute = input.destinationInstitute?.trim() || undefined;
+  const effectiveDate = parseEffectiveDate(input.effectiveDate);
+
+  if (to === 'transferred' && !destinationInstitute) {
+    throw new AppError('Please provide the institute the student is transferring to', 400);
+  }
+  if (to === 'dropped' && (!effectiveDate || !reason)) {
+    throw new AppError('Please provide the date and reason the student dropped out', 400);
+  }
+  if (to === 'graduated' && !hasClearedProgramme(student)) {
+    throw new AppError('Only students who have cleared every semester can graduate', 400);
+  }
+  if ((to === 'inactive' || to === 'active') && !reason) {
+    throw new AppError(`Please provide a reason for marking the student ${to}`, 400);
+  }
+
+  const update: Record<string, unknown> = { status: to };
+  if (to === 'graduated' && input.convoYear) update.convoYear = input.convoYear;
+
+  // Records from before status was tracked have no status and count as active
+  const updated = await StudentModel.findOneAndUpdate(
+    { _id: student._id, status: from === 'active' ? { $in: ['active', null] } : from },
+    { $set: update },
+    { new: true, runValidators: true }
+  );
+  if (!updated) {
+    throw new AppError("This student's status was changed by someone else. Please reload", 409);
+  }
+
+  return StudentStatusChangeModel.create({
+    student: student._id,
+    department: student.departmentId,
+    from,
+    to,
+    effectiveDate: effectiveDate || new Date(),
+    reason,
+    destinationInstitute,
+    changedBy: actorId
+  });
+};
@@ -0,0 +1,59 @@
+// Fields a student may change through a profile change request
+export const EDITABLE_PROFILE_FIELDS = [
+  'personalEmail',
+  'guardian.name',
+  'guardian.relation',
+  'guardian.contact',
+  'guardian.occupation',
+  'contact.mobile',
+  'contact.email',
+  'contact.address',
+  'contact.city',
+  'contact.state',
+  'contact.pincode',
+  'educationBackground'
+];
+
+// A profile counts as complete once every one of these has a value
+export const REQUIRED_PROFILE_FIELDS = [
+  'firstName',
+  'lastName',
+  'personalEmail',
+  'gender',
+  'category',
+  'guardian.name',
+  'guardian.relation',
+  'guardian.contact',
+  'contact.mobile',
+  'contact.address',
+  'contact.city',
+  'contact.state',
+  'contact.pincode',
+  'educationBackground'
+];
+
+export const getProfileValue = (source: unknown, path: string): unknown =>
+  path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+      source
+    );
+
+const hasValue = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '';
+  return value !== undefined && value !== null;
+};
+
+export const getMissingProfileFields = (student: unknown): string[] => {
+  const plain =
+    student && typeof (student as { toObject?: unknown }).toObject === 'function'
+      ? (student as { toObject: () => unknown }).toObject()
+      : student;
+  return REQUIRED_PROFILE_FIELDS.filter((path) => !hasValue(getProfileValue(plain, path)));
+};
+
+export const isProfileComplete = (student: unknown): boolean =>
+  getMissingProfileFields(student).length === 0;
@@ -0,0 +1,244 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { RefreshTokenModel } from '../models/refresh-token.model';
+import { IUser } from '../models/user.model';
+import { SessionEndReason, SessionModel } from '../models/session.model';
+
+const getSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+
+  return secret;
+};
+
+const getRefreshLifetimeMs = (): number =>
+  (parseInt(process.env.JWT_REFRESH_EXPIRES_DAYS || '') || 7) * 24 * 60 * 60 * 1000;
+
+// Refresh tokens are opaque random strings; only their hash is persisted
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+export const signAccessToken = (id: string, selectedRole: string, sid: string): string => {
+  const expiresIn = (process.env.JWT_EXPIRES_IN || '15m') as SignOptions['expiresIn'];
+  return jwt.sign({ id, selectedRole, sid }, getSecret(), { expiresIn });
+};
+
+// Access token for an admin viewing as another user; it names the admin and cannot be refreshed
+export const signImpersonationToken = (
+  id: string,
+  selectedRole: string,
+  sid: string,
+  impersonator: string,
+  expiresAt: Date
+): string => {
+  const expiresIn = Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+  return jwt.sign({ id, selectedRole, sid, impersonator }, getSecret(), { expiresIn });
+};
+
+export const issueRefreshToken = async (
+  userId: string,
+  selectedRole: string,
+  family: string = crypto.randomUUID(),
+  ip?: string
+): Promise<{ token: string; family: string; expiresAt: Date }> => {
+  const token = crypto.randomBytes(48).toString('hex');
+  const expiresAt = new Date(Date.now() + getRefreshLifetimeMs());
+
+  await RefreshTokenModel.create({
+    userId,
+    tokenHash: hashToken(token),
+    family,
+    selectedRole,
+    expiresAt,
+    createdByIp: ip
+  });
+
+  return { token, family, expiresAt };
+};
+
+// Short, human readable label such as "Chrome on Windows" for the session list
+export const describeDevice = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Chrome\//, 'Chrome'],
+    [/Firefox\//, 'Firefox'],
+    [/Safari\//, 'Safari'],
+    [/PostmanRuntime/, 'Postman'],
+    [/curl\//, 'curl']
+  ];
+  const systems: [RegExp, string][] = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux']
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || 'Unknown device';
+};
+
+// Every login and role switch starts its own session, keyed by the refresh token family
+export const startSession = async (
+  user: IUser,
+  req: Request,
+  options: { selectedRole?: string; expiresAt?: Date; impersonatedBy?: string } = {}
+): Promise<string> => {
+  const session = await SessionModel.create({
+    sid: crypto.randomUUID(),
+    userId: user._id,
+    selectedRole: options.selectedRole || user.selectedRole,
+    userAgent: req.get('user-agent'),
+    device: describeDevice(req.get('user-agent')),
+    ip: req.ip,
+    lastIp: req.ip,
+    expiresAt: options.expiresAt || new Date(Date.now() + getRefreshLifetimeMs()),
+    impersonatedBy: options.impersonatedBy
+  });
+  return session.sid;
+};
+
+// End a session and revoke every refresh token rotated from it
+export const endSession = async (
+  sid: string,
+  reason: SessionEndReason,
+  endedBy?: string
+): Promise<void> => {
+  await SessionModel.updateOne(
+    { sid, endedAt: { $exists: false } },
+    { $set: { endedAt: new Date(), endedReason: reason, endedBy } }
+  );
+  await RefreshTokenModel.updateMany(
+    { family: sid, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason === 'reuse' ? 'reuse' : 'logout' } }
+  );
+};
+
+// End every session a user holds, optionally keeping the one making the request
+export const endUserSessions = async (
+  userId: string,
+  reason: SessionEndReason,
+  exceptSid?: string,
+  endedBy?: string
+): Promise<number> => {
+  const filter: Record<string, unknown> = { userId, endedAt: { $exists: false } };
+  if (exceptSid) {
+    filter.sid = { $ne: exceptSid };
+  }
+
+  const sessions = await SessionModel.find(filter).select('sid');
+  for (const session of sessions) {
+    await endSession(session.sid, reason, endedBy);
+  }
+  return sessions.length;
+};
+
+export const isSessionActive = async (sid: string): Promise<boolean> => {
+  const session = await SessionModel.exists({
+    sid,
+    endedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  });
+  return Boolean(session);
+};
+
+// Record activity at most once a minute so every request doesn't turn into a write
+export const touchSession = async (sid: string, ip?: string): Promise<void> => {
+  await SessionModel.updateOne(
+    { sid, lastSeenAt: { $lt: new Date(Date.now() - 60 * 1000) } },
+    { $set: { lastSeenAt: new Date(), lastIp: ip } }
+  );
+};
+
+// A rotated refresh token pushes the session's expiry forward
+export const extendSession = async (sid: string, expiresAt: Date, ip?: string): Promise<void> => {
+  await SessionModel.updateOne(
+    { sid },
+    { $set: { expiresAt, lastSeenAt: new Date(), lastIp: ip } }
+  );
+};
+
+// Start a new session and send both tokens with the user
+export const createSendToken = async (
+  user: IUser,
+  statusCode: number,
+  req: Request,
+  res: Response,
+  extra: Record<string, unknown> = {}
+): Promise<void> => {
+  const sid = await startSession(user, req);
+  const refresh = await issueRefreshToken(user._id.toString(), user.selectedRole!, sid, req.ip);
+  const token = signAccessToken(user._id.toString(), user.selectedRole!, sid);
+
+  // Remove password and second-factor secrets from output
+  const userObject = user.toObject();
+  delete userObject.password;
+  if (userObject.twoFactor) {
+    userObject.twoFactor = {
+      enabled: userObject.twoFactor.enabled,
+      enabledAt: userObject.twoFactor.enabledAt
+    };
+  }
+
+  res.status(statusCode).json({
+    status: 'success',
+    token,
+    refreshToken: refresh.token,
+    ...extra,
+    data: {
+      user: userObject
+    }
+  });
+};
+
+export type ChallengePurpose = 'two-factor' | 'password-change';
+
+// Short-lived token proving the password step passed; it only unlocks the step it was issued for
+export const signChallengeToken = (id: string, purpose: ChallengePurpose = 'two-factor'): string => {
+  return jwt.sign({ id, purpose }, getSecret(), { expiresIn: '5m' });
+};
+
+// Carries a provider identity from the SSO callback to the password check that links it
+export const signSsoLinkToken = (id: string, issuer: string, subject: string): string => {
+  return jwt.sign({ id, purpose: 'sso-link', issuer, subject }, getSecret(), { expiresIn: '5m' });
+};
+
+export const verifySsoLinkToken = (
+  token: string
+): { id: string; issuer: string; subject: string } | null => {
+  try {
+    const decoded = jwt.verify(token, getSecret()) as {
+      id?: string;
+      purpose?: string;
+      issuer?: string;
+      subject?: string;
+    };
+    return decoded.purpose === 'sso-link' && decoded.id && decoded.issuer && decoded.subject
+      ? { id: decoded.id, issuer: decoded.issuer, subject: decoded.subject }
+      : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const verifyChallengeToken = (
+  token: string,
+  purpose: ChallengePurpose = 'two-factor'
+): string | null => {
+  try {
+    const decoded = jwt.verify(token, getSecret()) as { id?: string; purpose?: string };
+    return decoded.purpose === purpose && decoded.id ? decoded.id : null;
+  } catch (error) {
+    return null;
+  }
+};
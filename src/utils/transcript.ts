@@ -0,0 +1,218 @@
+import { ResultModel, IResult } from '../models/result.model';
+import { StudentModel } from '../models/student.model';
+import { getInstituteSettings } from './enrollment';
+import { escapeHtml, formatDate } from './pdf';
+
+export interface TranscriptAttempt {
+  exam: string;
+  extype?: string;
+  academicYear?: string;
+  declarationDate?: Date;
+  trials?: number;
+  result: string;
+  spi: number;
+  cpi: number;
+  earnedCredits: number;
+  totalCredits: number;
+  currentBacklog: number;
+  totalBacklog: number;
+  subjects: IResult['subjects'];
+}
+
+export interface Transcript {
+  enrollmentNo: string;
+  name: string;
+  department?: string;
+  branchName?: string;
+  batch?: string;
+  admissionYear?: number;
+  institute: string;
+  semesters: { semester: number; attempts: TranscriptAttempt[] }[];
+  latestCpi?: number;
+  // Every subject ever failed, and the exam in which it was finally cleared
+  backlogs: { semester: number; code: string; name: string; failedIn: string; clearedIn?: string }[];
+  generatedAt: Date;
+}
+
+// Everything that goes on the transcript, or null when the student has no results yet
+export const buildTranscript = async (enrollmentNo: string): Promise<Transcript | null> => {
+  const results = await ResultModel.find({ enrollmentNo })
+    .sort({ declarationDate: 1, examid: 1 })
+    .lean();
+  if (results.length === 0) return null;
+
+  const student = await StudentModel.findOne({ enrollmentNo })
+    .populate('departmentId', 'name')
+    .lean();
+  const department = student?.departmentId as unknown as { name?: string } | undefined;
+  const latest = results[results.length - 1];
+
+  const semesters = new Map<number, TranscriptAttempt[]>();
+  const backlogs: Transcript['backlogs'] = [];
+  const openBacklogs = new Map<string, Transcript['backlogs'][number]>();
+
+  for (const result of results) {
+    const attempts = semesters.get(result.semester) || [];
+    attempts.push({
+      exam: result.exam,
+      extype: result.extype,
+      academicYear: result.academicYear,
+      declarationDate: result.declarationDate,
+      trials: result.trials,
+      result: result.result,
+      spi: result.spi,
+      cpi: result.cpi,
+      earnedCredits: result.earnedCredits,
+      totalCredits: result.totalCredits,
+      currentBacklog: result.currentBacklog,
+      totalBacklog: result.totalBacklog,
+      subjects: result.subjects
+    });
+    semesters.set(result.semester, attempts);
+
+    for (const subject of result.subjects || []) {
+      const open = openBacklogs.get(subject.code);
+      if (subject.isBacklog && !open) {
+        const backlog = {
+          semester: result.semester,
+          code: subject.code,
+          name: subject.name,
+          failedIn: result.exam
+        };
+        backlogs.push(backlog);
+        openBacklogs.set(subject.code, backlog);
+      } else if (!subject.isBacklog && open) {
+        open.clearedIn = result.exam;
+        openBacklogs.delete(subject.code);
+      }
+    }
+  }
+
+  return {
+    enrollmentNo,
+    name: student?.fullName || latest.name,
+    department: department?.name,
+    branchName: latest.branchName,
+    batch: student?.batch,
+    admissionYear: student?.admissionYear,
+    institute: latest.instName || (await getInstituteSettings()).name,
+    semesters: Array.from(semesters.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([semester, attempts]) => ({ semester, attempts })),
+    latestCpi: latest.cpi,
+    backlogs,
+    generatedAt: new Date()
+  };
+};
+
+const STYLES = `
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 10px; color: #222; }
+  header { text-align: center; border-bottom: 2px solid #222; margin-bottom: 12px; }
+  header h1 { font-size: 16px; margin: 0 0 4px; }
+  header h2 { font-size: 13px; margin: 0 0 8px; font-weight: normal; }
+  .details td { padding: 2px 12px 2px 0; }
+  h3 { font-size: 12px; margin: 16px 0 4px; }
+  h4 { font-size: 11px; margin: 8px 0 4px; }
+  table.grades { width: 100%; border-collapse: collapse; page-break-inside: avoid; }
+  table.grades th, table.grades td { border: 1px solid #999; padding: 3px 4px; text-align: center; }
+  table.grades td.name { text-align: left; }
+  .backlog { color: #b00020; font-weight: bold; }
+  .summary { margin: 4px 0 0; }
+  footer { margin-top: 24px; font-size: 9px; color: #555; }
+`;
+
+const renderAttempt = (attempt: TranscriptAttempt): string => `
+  <h4>${escapeHtml(attempt.exam)} (${escapeHtml(attempt.extype || '')})
+    &middot; Declared ${formatDate(attempt.declarationDate)}</h4>
+  <table class="grades">
+    <thead>
+      <tr>
+        <th>Code</th><th>Subject</th><th>Credits</th>
+        <th>Theory ESE</th><th>Theory PA</th><th>Theory Total</th>
+        <th>Practical PA</th><th>Viva</th><th>Practical Total</th><th>Grade</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${(attempt.subjects || [])
+        .map(
+          (subject) => `
+        <tr>
+          <td>${escapeHtml(subject.code)}</td>
+          <td class="name">${escapeHtml(subject.name)}</td>
+          <td>${escapeHtml(subject.credits)}</td>
+          <td>${escapeHtml(subject.theoryEseGrade || '-')}</td>
+          <td>${escapeHtml(subject.theoryPaGrade || '-')}</td>
+          <td>${escapeHtml(subject.theoryTotalGrade || '-')}</td>
+          <td>${escapeHtml(subject.practicalPaGrade || '-')}</td>
+          <td>${escapeHtml(subject.practicalVivaGrade || '-')}</td>
+          <td>${escapeHtml(subject.practicalTotalGrade || '-')}</td>
+          <td class="${subject.isBacklog ? 'backlog' : ''}">${escapeHtml(subject.grade)}</td>
+        </tr>`
+        )
+        .join('')}
+    </tbody>
+  </table>
+  <p class="summary">
+    Result: <strong>${escapeHtml(attempt.result)}</strong> &middot;
+    SPI: ${escapeHtml(attempt.spi)} &middot; CPI: ${escapeHtml(attempt.cpi)} &middot;
+    Credits earned: ${escapeHtml(attempt.earnedCredits)}/${escapeHtml(attempt.totalCredits)} &middot;
+    Current backlogs: ${escapeHtml(attempt.currentBacklog)} &middot;
+    Total backlogs: ${escapeHtml(attempt.totalBacklog)}
+  </p>`;
+
+export const renderTranscriptHtml = (transcript: Transcript): string => `
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>${STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(transcript.institute)}</h1>
+    <h2>Consolidated Transcript</h2>
+  </header>
+  <table class="details">
+    <tr><td>Name</td><td><strong>${escapeHtml(transcript.name)}</strong></td>
+        <td>Enrollment No.</td><td><strong>${escapeHtml(transcript.enrollmentNo)}</strong></td></tr>
+    <tr><td>Department</td><td>${escapeHtml(transcript.department || transcript.branchName)}</td>
+        <td>Batch</td><td>${escapeHtml(transcript.batch || transcript.admissionYear || '-')}</td></tr>
+    <tr><td>Latest CPI</td><td>${escapeHtml(transcript.latestCpi ?? '-')}</td><td></td><td></td></tr>
+  </table>
+
+  ${transcript.semesters
+    .map(
+      ({ semester, attempts }) => `
+    <h3>Semester ${semester}</h3>
+    ${attempts.map(renderAttempt).join('')}`
+    )
+    .join('')}
+
+  <h3>Backlog History</h3>
+  ${
+    transcript.backlogs.length === 0
+      ? '<p>No backlogs.</p>'
+      : `<table class="grades">
+    <thead><tr><th>Semester</th><th>Code</th><th>Subject</th><th>Failed In</th><th>Cleared In</th></tr></thead>
+    <tbody>
+      ${transcript.backlogs
+        .map(
+          (backlog) => `
+      <tr>
+        <td>${backlog.semester}</td>
+        <td>${escapeHtml(backlog.code)}</td>
+        <td class="name">${escapeHtml(backlog.name)}</td>
+        <td>${escapeHtml(backlog.failedIn)}</td>
+        <td class="${backlog.clearedIn ? '' : 'backlog'}">${escapeHtml(backlog.clearedIn || 'Pending')}</td>
+      </tr>`
+        )
+        .join('')}
+    </tbody>
+  </table>`
+  }
+
+  <footer>
+    Generated on ${formatDate(transcript.generatedAt)} from GTU results held by the institute.
+    This is a computer generated document.
+  </footer>
+</body>
+</html>`;